@@ -1,117 +1,376 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Header from './components/Header';
 import CourseForm from './components/CourseForm';
 import SummaryCard from './components/SummaryCard';
 import CourseTable from './components/CourseTable';
 import TranscriptImportModal from './components/TranscriptImportModal';
-import { Course, GraduationRequirements } from './types';
-import { Cloud, CheckCircle2, AlertCircle, Loader2, Save, Sparkles } from 'lucide-react';
-
-// Pantry Configuration
-const PANTRY_ID = '7221a69a-c255-469e-86bf-7c36ba6f90f6';
-const BASKET_NAME = 'ntu-accounting-courses';
-const PANTRY_URL = `https://getpantry.cloud/apiv1/pantry/${PANTRY_ID}/basket/${BASKET_NAME}`;
-
-// NTU Accounting (111 Entry) Rules
-// 共同必修(9) + 系訂必修(69) + 指定選修(21) + 一般選修(19) + 通識(15) = 總學分(133)
-const ACCOUNTING_111_REQUIREMENTS: GraduationRequirements = {
-  total: 133,
-  commonRequired: 9,
-  deptRequired: 69,
-  designatedElective: 21,
-  generalElective: 19,
-  generalEducation: 15,
-};
+import CurriculumSelector from './components/CurriculumSelector';
+import RequiredCourseChecklist from './components/RequiredCourseChecklist';
+import TargetGpaCalculator from './components/TargetGpaCalculator';
+import SemesterView from './components/SemesterView';
+import SyncSettings from './components/SyncSettings';
+import SyncConflictModal from './components/SyncConflictModal';
+import DataTransferModal, { ImportMode } from './components/DataTransferModal';
+import AuditReport from './components/AuditReport';
+import ValidationPanel from './components/ValidationPanel';
+import { Course, RuleSetRef, SecondaryProgram } from './types';
+import { DEFAULT_CURRICULUM_ID, getCurriculum, toRuleSetRef } from './data/curricula';
+import { getSecondaryProgram, toProgramRef } from './data/programs';
+import {
+  CourseDocument,
+  StorageSettings,
+  createLocalStorageBackend,
+  createPantryBackend,
+  LegacyImportOutcome,
+  loadLegacyDocument,
+  loadStorageSettings,
+  markLegacyImport,
+  saveStorageSettings,
+} from './services/storage';
+import { isSameDocument, saveWithConflictCheck } from './services/sync';
+import useCourseHistory from './hooks/useCourseHistory';
+import useCohortRank from './hooks/useCohortRank';
+import { COHORT_RANKING_AVAILABLE, createConfiguredCohortService, loadContributorId } from './services/cohort';
+import { getGpaCourses, sumGradePoints, toGpa } from './utils/gpa';
+import { mergeImportedCourses } from './utils/courseFile';
+import { applyTranscriptChanges } from './utils/importReconcile';
+import { applyQuickFix, CourseWarning, QuickFix, validateCourses } from './utils/validation';
+import { Cloud, CloudOff, CheckCircle2, AlertCircle, Loader2, HardDrive, Sparkles, GitMerge, Undo2, Redo2, ArrowDownUp, Printer } from 'lucide-react';
+
+type LocalSyncStatus = 'idle' | 'saved' | 'error';
+type RemoteSyncStatus = 'disabled' | 'loading' | 'saving' | 'synced' | 'error' | 'offline' | 'conflict';
+
+// Serialized content of a document, used to tell whether local edits still need pushing
+const contentKey = (doc: CourseDocument) =>
+  JSON.stringify({ courses: doc.courses, ruleSet: doc.ruleSet?.id, programs: doc.programs?.map((p) => p.id) });
 
 const App: React.FC = () => {
   const [courses, setCourses] = useState<Course[]>([]);
-  const [requirements] = useState<GraduationRequirements>(ACCOUNTING_111_REQUIREMENTS);
+  const [curriculumId, setCurriculumId] = useState<string>(DEFAULT_CURRICULUM_ID);
+  const curriculum = getCurriculum(curriculumId);
+  const requirements = curriculum.requirements;
+  // Secondary programs (雙主修 / 輔系); one in the primary department makes no sense and is ignored
+  const [programIds, setProgramIds] = useState<string[]>([]);
+  const programs = programIds
+    .map(getSecondaryProgram)
+    .filter((p): p is SecondaryProgram => !!p && p.departmentId !== curriculum.departmentId);
+  const history = useCourseHistory(courses, setCourses);
   
   // Persistence States
+  const [storageSettings, setStorageSettings] = useState<StorageSettings>(loadStorageSettings);
   const [isLoading, setIsLoading] = useState(true);
-  const [syncStatus, setSyncStatus] = useState<'synced' | 'saving' | 'error' | 'idle'>('idle');
+  const [localStatus, setLocalStatus] = useState<LocalSyncStatus>('idle');
+  const [remoteStatus, setRemoteStatus] = useState<RemoteSyncStatus>('disabled');
   const [isInitialized, setIsInitialized] = useState(false);
+  // Remote saves wait until the remote copy has been pulled, so an empty local list never overwrites it
+  const [isRemoteReady, setIsRemoteReady] = useState(false);
+  const [remoteRetry, setRemoteRetry] = useState(0);
+  // Remote copy that diverged from local edits; sync pauses until the user merges
+  const [conflict, setConflict] = useState<CourseDocument | null>(null);
+  // Courses found in the old shared basket, offered once for import into this browser
+  const [legacyDocument, setLegacyDocument] = useState<CourseDocument | null>(null);
+  // Remote revision the local copy is based on, and the content last synced at that revision
+  const baseRevision = useRef(0);
+  const syncedContent = useRef<string | null>(null);
+
+  const localBackend = useMemo(() => createLocalStorageBackend(), []);
+  const remoteBackend = useMemo(
+    () => storageSettings.remoteEnabled
+      ? createPantryBackend(storageSettings.pantryId, storageSettings.basketId)
+      : null,
+    [storageSettings]
+  );
 
   // Modal State
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [courseView, setCourseView] = useState<'category' | 'semester'>('category');
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  // Opt-in cohort ranking: overall GPA of completed courses, never names or ids. Switched off for now.
+  const cohortService = useMemo(
+    () => (COHORT_RANKING_AVAILABLE && storageSettings.cohortOptIn ? createConfiguredCohortService(storageSettings) : null),
+    [storageSettings.cohortOptIn, storageSettings.remoteEnabled, storageSettings.pantryId]
+  );
+  const completedGpa = sumGradePoints(getGpaCourses(courses).filter((c) => !c.isCurrent && !c.isPlanned));
+  const cohort = useCohortRank(
+    cohortService,
+    completedGpa.credits > 0
+      ? { entryYear: curriculum.entryYear, departmentId: curriculum.departmentId, gpa: toGpa(completedGpa), credits: completedGpa.credits }
+      : null
+  );
+
+  const warnings = validateCourses(courses, curriculum.entryYear);
+
+  const currentDocument = (): CourseDocument => ({
+    courses,
+    ruleSet: toRuleSetRef(curriculum),
+    programs: programs.map(toProgramRef),
+  });
+
+  const applyDocument = (doc: CourseDocument) => {
+    setCourses(doc.courses);
+    history.reset();
+    // Older baskets have no rule set recorded; they fall back to the default
+    if (doc.ruleSet && doc.ruleSet.id) {
+      setCurriculumId(getCurriculum(doc.ruleSet.id).id);
+    }
+    setProgramIds((doc.programs || []).map((p) => p.id));
+  };
+
+  const markSynced = (doc: CourseDocument) => {
+    baseRevision.current = doc.revision || 0;
+    syncedContent.current = contentKey(doc);
+  };
 
-  // 1. Load from Pantry on Mount
+  // 1. Load from local storage on Mount
   useEffect(() => {
-    const fetchData = async () => {
+    const loadLocal = async () => {
       try {
-        const response = await fetch(PANTRY_URL);
-        if (response.ok) {
-          const data = await response.json();
-          if (data.courses && Array.isArray(data.courses)) {
-            setCourses(data.courses);
-          }
-        } else {
-          // If 404/400, it usually means the basket doesn't exist yet, which is fine for a new user
-          console.log("No existing data found or basket empty. Starting fresh.");
+        const doc = await localBackend.load();
+        if (doc) {
+          applyDocument(doc);
+          baseRevision.current = doc.revision || 0;
+          // Unpushed edits from the last session stay pending
+          syncedContent.current = doc.pendingSync ? null : contentKey(doc);
+          setLocalStatus('saved');
         }
       } catch (error) {
-        console.error("Failed to load from Pantry:", error);
-        alert("無法載入雲端資料，請檢查網路連線。");
+        console.error("Failed to load local data:", error);
+        setLocalStatus('error');
       } finally {
         setIsLoading(false);
         setIsInitialized(true);
       }
     };
 
-    fetchData();
+    loadLocal();
+  }, [localBackend]);
+
+  // 2. Pull from the remote basket whenever it is (re)configured or the browser comes back online
+  useEffect(() => {
+    if (!isInitialized) return;
+    setIsRemoteReady(false);
+
+    if (!remoteBackend) {
+      setRemoteStatus('disabled');
+      return;
+    }
+
+    let cancelled = false;
+    setRemoteStatus('loading');
+
+    remoteBackend.load()
+      .then((remote) => {
+        if (cancelled) return;
+        const local = currentDocument();
+        // An empty local list has nothing worth merging (e.g. a new device joining a basket)
+        const hasLocalEdits = local.courses.length > 0 && contentKey(local) !== syncedContent.current;
+
+        if (remote && isSameDocument(local, remote)) {
+          markSynced(remote);
+        } else if (remote && !hasLocalEdits) {
+          applyDocument(remote);
+          markSynced(remote);
+        } else if (remote && ((remote.revision || 0) > baseRevision.current || syncedContent.current === null)) {
+          // Both sides changed since the last sync (or local edits were never synced with this basket)
+          setConflict(remote);
+          setRemoteStatus('conflict');
+          return;
+        }
+        // Otherwise local edits sit on top of the current remote revision and get pushed by the save effect
+        setRemoteStatus('synced');
+        setIsRemoteReady(true);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Failed to load from Pantry:", error);
+        setRemoteStatus(navigator.onLine ? 'error' : 'offline');
+      });
+
+    return () => { cancelled = true; };
+  }, [remoteBackend, isInitialized, remoteRetry]);
+
+  // One-time check of the basket everyone shared before per-user storage; a failed read is retried next visit
+  useEffect(() => {
+    if (!isInitialized) return;
+    let cancelled = false;
+    loadLegacyDocument()
+      .then((doc) => { if (!cancelled) setLegacyDocument(doc); })
+      .catch((error) => console.error("Failed to check the old shared basket:", error));
+    return () => { cancelled = true; };
+  }, [isInitialized]);
+
+  // Cohort ranking was switched off: take back an entry published while it was on and clear the opt-in
+  useEffect(() => {
+    if (COHORT_RANKING_AVAILABLE || !storageSettings.cohortOptIn) return;
+    handleApplyStorageSettings({ ...storageSettings, cohortOptIn: false });
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setRemoteRetry((n) => n + 1);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
   }, []);
 
-  // 2. Save to Pantry on Change (Debounced)
+  // 3. Save locally right away, and to Pantry on Change (Debounced, conflict-checked)
   useEffect(() => {
     if (!isInitialized) return;
 
-    setSyncStatus('saving');
+    const doc = currentDocument();
+    const hasLocalEdits = contentKey(doc) !== syncedContent.current;
+
+    localBackend.save({ ...doc, revision: baseRevision.current, pendingSync: hasLocalEdits })
+      .then(() => setLocalStatus('saved'))
+      .catch((error) => {
+        console.error("Failed to save local data:", error);
+        setLocalStatus('error');
+      });
+
+    if (!remoteBackend || !isRemoteReady || conflict || !hasLocalEdits) return;
+
+    setRemoteStatus('saving');
     
     const handler = setTimeout(async () => {
       try {
-        const response = await fetch(PANTRY_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ courses }),
-        });
-
-        if (response.ok) {
-          setSyncStatus('synced');
-        } else {
-          throw new Error('Save failed');
+        const result = await saveWithConflictCheck(remoteBackend, doc, baseRevision.current);
+        if (result.status === 'conflict') {
+          setConflict(result.remote);
+          setRemoteStatus('conflict');
+          return;
         }
+        markSynced(result.document);
+        await localBackend.save({ ...result.document, pendingSync: false });
+        setRemoteStatus('synced');
       } catch (error) {
         console.error("Failed to save to Pantry:", error);
-        setSyncStatus('error');
+        setRemoteStatus(navigator.onLine ? 'error' : 'offline');
       }
     }, 1000); // 1 second debounce
 
     return () => clearTimeout(handler);
-  }, [courses, isInitialized]);
+  }, [courses, curriculumId, programIds, isInitialized, localBackend, remoteBackend, isRemoteReady, conflict]);
 
+  // The merged list is based on the remote revision, so the next save goes through without a conflict
+  const handleResolveConflict = (merged: Course[]) => {
+    if (!conflict) return;
+    markSynced(conflict);
+    setConflict(null);
+    setCourses(merged);
+    history.reset();
+    setIsRemoteReady(true);
+  };
+
+  const handleApplyStorageSettings = (settings: StorageSettings) => {
+    if (settings.pantryId !== storageSettings.pantryId || settings.basketId !== storageSettings.basketId) {
+      // A different basket has its own revision history; local courses are merged into it
+      baseRevision.current = 0;
+      syncedContent.current = null;
+    }
+    const cohortBackendChanged =
+      settings.remoteEnabled !== storageSettings.remoteEnabled || settings.pantryId !== storageSettings.pantryId;
+    if (storageSettings.cohortOptIn && (!settings.cohortOptIn || cohortBackendChanged)) {
+      // Opting out, or moving to another backend, takes this browser's entry out of the old dataset
+      createConfiguredCohortService(storageSettings)
+        .withdraw(loadContributorId())
+        .catch((error) => console.error('Failed to withdraw cohort entry:', error));
+    }
+    saveStorageSettings(settings);
+    setStorageSettings(settings);
+  };
+
+  // Every course change goes through the history so it can be undone
   const handleAddCourse = (course: Course) => {
-    setCourses((prev) => [...prev, course]);
+    history.commit(`新增 ${course.name}`, (prev) => [...prev, course]);
   };
 
-  const handleBatchAddCourses = (newCourses: Course[]) => {
-    setCourses((prev) => [...prev, ...newCourses]);
+  // Transcript imports arrive as a diff: new courses plus updated copies of existing ones
+  const handleApplyTranscriptImport = (changes: Course[]) => {
+    if (changes.length === 0) return;
+    history.commit(`匯入成績單 (${changes.length} 筆變更)`, (prev) => applyTranscriptChanges(prev, changes));
+  };
+
+  const handleLegacyImport = (outcome: LegacyImportOutcome) => {
+    if (legacyDocument && outcome === 'imported') {
+      const legacy = legacyDocument.courses;
+      history.commit(`匯入舊版共用資料 ${legacy.length} 門課程`, (prev) => mergeImportedCourses(prev, legacy));
+    }
+    markLegacyImport(outcome);
+    setLegacyDocument(null);
+  };
+
+  const handleImportFile = (imported: Course[], mode: ImportMode, ruleSet?: RuleSetRef) => {
+    if (ruleSet) setCurriculumId(getCurriculum(ruleSet.id).id);
+    if (mode === 'replace') {
+      history.commit(`以檔案取代 (${imported.length} 門)`, () => imported);
+    } else {
+      history.commit(`匯入檔案 ${imported.length} 門課程`, (prev) => mergeImportedCourses(prev, imported));
+    }
   };
 
   const handleUpdateCourse = (updatedCourse: Course) => {
-    setCourses((prev) => prev.map((c) => (c.id === updatedCourse.id ? updatedCourse : c)));
+    history.commit(`編輯 ${updatedCourse.name}`, (prev) => prev.map((c) => (c.id === updatedCourse.id ? updatedCourse : c)));
   };
 
   const handleDeleteCourse = (id: string) => {
     if (window.confirm("確定要刪除這門課程嗎？ (Are you sure you want to delete this course?)")) {
-        setCourses((prev) => prev.filter((c) => c.id !== id));
+        const name = courses.find((c) => c.id === id)?.name || '';
+        history.commit(`刪除 ${name}`, (prev) => prev.filter((c) => c.id !== id));
     }
   };
 
-  // Render Sync Status Indicator
-  const renderSyncStatus = () => {
-    switch (syncStatus) {
+  const handleFixWarning = (warning: CourseWarning) => {
+    const fix = warning.fix;
+    if (!fix) return;
+    history.commit(`修正 ${warning.course.name}`, (prev) =>
+      prev.map((c) => (c.id === warning.course.id ? applyQuickFix(c, fix) : c))
+    );
+  };
+
+  // Fixes for the same course are applied one after another, in list order; warnings without a fix are left for the user
+  const handleFixAllWarnings = () => {
+    const fixable = warnings.filter((w): w is CourseWarning & { fix: QuickFix } => !!w.fix);
+    history.commit(`修正 ${fixable.length} 項資料`, (prev) =>
+      prev.map((c) => fixable.filter((w) => w.course.id === c.id).reduce((course, w) => applyQuickFix(course, w.fix), c))
+    );
+  };
+
+  // Render Sync Status Indicator (local copy first, then the remote basket)
+  const renderLocalStatus = () => {
+    switch (localStatus) {
+      case 'saved':
+        return (
+          <div className="flex items-center text-green-600 text-xs">
+            <HardDrive className="w-3 h-3 mr-1" />
+            <span>本機已儲存 (Saved locally)</span>
+          </div>
+        );
+      case 'error':
+        return (
+          <div className="flex items-center text-red-600 text-xs">
+            <AlertCircle className="w-3 h-3 mr-1" />
+            <span>本機儲存失敗 (Local save failed)</span>
+          </div>
+        );
+      default:
+        return (
+          <div className="flex items-center text-gray-500 text-xs">
+            <HardDrive className="w-3 h-3 mr-1" />
+            <span>本機待命 (Idle)</span>
+          </div>
+        );
+    }
+  };
+
+  const renderRemoteStatus = () => {
+    switch (remoteStatus) {
+      case 'loading':
+        return (
+          <div className="flex items-center text-yellow-600 text-xs">
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            <span>雲端載入中... (Loading...)</span>
+          </div>
+        );
       case 'saving':
         return (
           <div className="flex items-center text-yellow-600 text-xs">
@@ -130,14 +389,28 @@ const App: React.FC = () => {
         return (
           <div className="flex items-center text-red-600 text-xs">
             <AlertCircle className="w-3 h-3 mr-1" />
-            <span>儲存失敗 (Save Failed)</span>
+            <span>雲端同步失敗 (Sync Failed)</span>
+          </div>
+        );
+      case 'conflict':
+        return (
+          <div className="flex items-center text-orange-600 text-xs">
+            <GitMerge className="w-3 h-3 mr-1" />
+            <span>同步衝突 (Conflict)</span>
+          </div>
+        );
+      case 'offline':
+        return (
+          <div className="flex items-center text-gray-500 text-xs">
+            <CloudOff className="w-3 h-3 mr-1" />
+            <span>離線中 (Offline)</span>
           </div>
         );
       default:
         return (
           <div className="flex items-center text-gray-500 text-xs">
             <Cloud className="w-3 h-3 mr-1" />
-            <span>雲端待命 (Idle)</span>
+            <span>雲端同步未啟用 (Local only)</span>
           </div>
         );
     }
@@ -147,23 +420,60 @@ const App: React.FC = () => {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-100 flex-col space-y-4">
         <Loader2 className="w-10 h-10 text-ntu-red animate-spin" />
-        <p className="text-gray-600 font-bold">正在從雲端載入課程資料...</p>
-        <p className="text-gray-400 text-xs">Loading data from Pantry...</p>
+        <p className="text-gray-600 font-bold">正在載入課程資料...</p>
+        <p className="text-gray-400 text-xs">Loading saved data...</p>
       </div>
     );
   }
 
+  // The audit report replaces the whole page so only the report gets printed
+  if (isReportOpen) {
+    return <AuditReport courses={courses} curriculum={curriculum} programs={programs} onClose={() => setIsReportOpen(false)} />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col font-sans text-gray-900 bg-gray-100">
-      <Header />
+      <Header curriculum={curriculum} />
 
       <main className="flex-grow container mx-auto px-4 py-6">
+        {legacyDocument && (
+          <div className="bg-blue-50 border border-blue-300 shadow-sm p-3 mb-6 text-sm flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div className="text-blue-900">
+              <p className="font-bold">在舊版共用雲端找到 {legacyDocument.courses.length} 門課程 (Courses found in the old shared storage)</p>
+              <p className="text-xs">
+                舊版所有使用者共用同一個雲端資料，可一次匯入到此瀏覽器；之後不會再讀取。
+                (Import them into this browser once; the shared storage is not read again.)
+              </p>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => handleLegacyImport('imported')}
+                className="text-xs font-bold px-3 py-1 bg-ntu-red text-white hover:bg-red-800"
+              >
+                匯入 (Import)
+              </button>
+              <button
+                onClick={() => handleLegacyImport('declined')}
+                className="text-xs font-bold px-3 py-1 border border-gray-300 bg-white text-gray-700 hover:border-ntu-red hover:text-ntu-red"
+              >
+                略過 (Skip)
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Top Section: Grid layout for Input and Summary */}
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 mb-6">
           
           {/* Left Column: Input Form (4 cols) */}
           <div className="lg:col-span-4 flex flex-col gap-4">
-            <CourseForm onAddCourse={handleAddCourse} />
+            <CurriculumSelector
+              curriculum={curriculum}
+              programIds={programs.map((p) => p.id)}
+              onChange={setCurriculumId}
+              onProgramsChange={setProgramIds}
+            />
+            <CourseForm curriculum={curriculum} onAddCourse={handleAddCourse} />
             
             {/* AI Import Button */}
             <button
@@ -173,42 +483,125 @@ const App: React.FC = () => {
                <Sparkles className="w-5 h-5" />
                <span>AI 智慧匯入成績單 (Import)</span>
             </button>
+
+            <button
+               onClick={() => setIsTransferModalOpen(true)}
+               className="w-full bg-white text-gray-700 font-bold py-2 px-4 rounded shadow-sm hover:text-ntu-red hover:border-ntu-red transition-all flex items-center justify-center space-x-2 border border-gray-300 text-sm"
+            >
+               <ArrowDownUp className="w-4 h-4" />
+               <span>匯出 / 匯入檔案 (JSON / CSV)</span>
+            </button>
+
+            <button
+               onClick={() => setIsReportOpen(true)}
+               className="w-full bg-white text-gray-700 font-bold py-2 px-4 rounded shadow-sm hover:text-ntu-red hover:border-ntu-red transition-all flex items-center justify-center space-x-2 border border-gray-300 text-sm"
+            >
+               <Printer className="w-4 h-4" />
+               <span>畢業檢核表 / 列印 (Audit report)</span>
+            </button>
+
+            {/* Undo / Redo */}
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={history.undo}
+                disabled={!history.undoLabel}
+                title="Ctrl+Z"
+                className="bg-white border border-gray-300 shadow-sm py-2 px-3 text-xs flex items-center justify-center space-x-1 text-gray-700 hover:border-ntu-red hover:text-ntu-red disabled:text-gray-300 disabled:hover:border-gray-300 disabled:cursor-not-allowed"
+              >
+                <Undo2 className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">復原{history.undoLabel ? `：${history.undoLabel}` : ' (Undo)'}</span>
+              </button>
+              <button
+                onClick={history.redo}
+                disabled={!history.redoLabel}
+                title="Ctrl+Shift+Z"
+                className="bg-white border border-gray-300 shadow-sm py-2 px-3 text-xs flex items-center justify-center space-x-1 text-gray-700 hover:border-ntu-red hover:text-ntu-red disabled:text-gray-300 disabled:hover:border-gray-300 disabled:cursor-not-allowed"
+              >
+                <Redo2 className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">重做{history.redoLabel ? `：${history.redoLabel}` : ' (Redo)'}</span>
+              </button>
+            </div>
             
             {/* Legend / Info Box */}
             <div className="bg-yellow-50 border border-yellow-200 p-4 text-xs text-yellow-900 shadow-sm">
                 <div className="flex justify-between items-start mb-2">
                    <h4 className="font-bold text-base">使用說明 (Instructions)</h4>
-                   {renderSyncStatus()}
+                   <div className="flex flex-col items-end space-y-0.5">
+                     {renderLocalStatus()}
+                     {renderRemoteStatus()}
+                   </div>
                 </div>
                 <ul className="list-disc list-inside space-y-1.5">
-                    <li>本系統適用 <strong>台大會計系 111學年度入學生</strong>。</li>
+                    <li>目前規則：<strong>台大{curriculum.department} {curriculum.entryYear}學年度入學生</strong> (v{curriculum.version})。</li>
                     <li>體育課程 (PE) 雖然會列出，但不計入畢業學分計算。</li>
-                    <li>請依照：共同必修(9)、系訂必修(69)、指定選修(21)、一般選修(19)、通識(15) 進行分類。</li>
+                    <li>請依照：共同必修({requirements.commonRequired})、系訂必修({requirements.deptRequired})、指定選修({requirements.designatedElective})、一般選修({requirements.generalElective})、通識({requirements.generalEducation}) 進行分類。</li>
                     <li>GPA 採用 NTU 4.3 制計算。</li>
-                    <li><strong>資料儲存：</strong> 使用 Pantry 雲端資料庫 (ID: ...90f6)。</li>
+                    <li>不及格 (F) 不計學分但計入 GPA；同名課程重複修習時學分僅計一次。</li>
+                    <li><strong>資料儲存：</strong> 預設儲存於本機瀏覽器，可於下方啟用 Pantry 雲端同步。</li>
                     <li>可使用 AI 匯入功能，上傳 PDF 或貼上文字即可自動辨識。</li>
+                    <li>新增、編輯、刪除與匯入皆可用 Ctrl+Z 復原、Ctrl+Shift+Z 重做。</li>
                 </ul>
             </div>
+
+            <SyncSettings settings={storageSettings} onApply={handleApplyStorageSettings} />
           </div>
 
           {/* Right Column: Summary & Stats (8 cols) */}
           <div className="lg:col-span-8">
-            <SummaryCard courses={courses} requirements={requirements} />
-            <CourseTable 
-              courses={courses} 
-              onDelete={handleDeleteCourse} 
-              onUpdate={handleUpdateCourse}
+            <ValidationPanel warnings={warnings} onFix={handleFixWarning} onFixAll={handleFixAllWarnings} />
+            <SummaryCard
+              courses={courses}
+              requirements={requirements}
+              overflowRules={curriculum.overflowRules}
+              genEdDomains={curriculum.genEdDomains}
+              programs={programs}
+              exemptionRules={curriculum.exemptionRules}
+              cohortRank={cohort.rank}
+              cohortStatus={cohort.status}
             />
+            <RequiredCourseChecklist courses={courses} curriculum={curriculum} />
+            <TargetGpaCalculator courses={courses} />
+
+            {/* Course list: by category (editable) or by semester (trend) */}
+            <div className="flex mt-6 -mb-6 space-x-1 text-sm">
+              {([['category', '依類別 By Category'], ['semester', '依學期 By Semester']] as const).map(([view, label]) => (
+                <button
+                  key={view}
+                  onClick={() => setCourseView(view)}
+                  className={`px-4 py-1.5 border border-b-0 font-bold transition-colors ${
+                    courseView === view ? 'bg-white text-ntu-red border-gray-300' : 'bg-gray-100 text-gray-500 border-transparent hover:text-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {courseView === 'category' ? (
+              <CourseTable 
+                courses={courses} 
+                curriculum={curriculum}
+                onDelete={handleDeleteCourse} 
+                onUpdate={handleUpdateCourse}
+              />
+            ) : (
+              <div className="mt-6">
+                <SemesterView courses={courses} creditLoad={curriculum.creditLoad} />
+              </div>
+            )}
           </div>
         </div>
 
       </main>
 
       <footer className="bg-gray-800 text-gray-400 py-6 text-center text-sm border-t-4 border-ntu-red">
-        <p>&copy; {new Date().getFullYear()} NTU Accounting Graduation Credit Calculator.</p>
+        <p>&copy; {new Date().getFullYear()} NTU Graduation Credit Calculator ({curriculum.departmentEn}, {curriculum.entryYear} Entry).</p>
         <div className="flex items-center justify-center space-x-2 mt-2">
-           <Cloud className="w-4 h-4" />
-           <span className="text-xs">Data storage provided by Pantry Cloud (ID: 7221a69a...90f6)</span>
+           {storageSettings.remoteEnabled ? <Cloud className="w-4 h-4" /> : <HardDrive className="w-4 h-4" />}
+           <span className="text-xs">
+             {storageSettings.remoteEnabled
+               ? `Data stored locally and synced to Pantry Cloud (Basket: ${storageSettings.basketId})`
+               : 'Data stored locally in this browser'}
+           </span>
         </div>
         <p className="text-xs mt-1">此為輔助工具，實際畢業資格請依教務處審核為準。</p>
       </footer>
@@ -216,8 +609,26 @@ const App: React.FC = () => {
       <TranscriptImportModal 
         isOpen={isImportModalOpen} 
         onClose={() => setIsImportModalOpen(false)} 
-        onImport={handleBatchAddCourses}
+        onImport={handleApplyTranscriptImport}
+        curriculum={curriculum}
+        existingCourses={courses}
       />
+
+      <DataTransferModal
+        isOpen={isTransferModalOpen}
+        onClose={() => setIsTransferModalOpen(false)}
+        courses={courses}
+        ruleSet={toRuleSetRef(curriculum)}
+        onImport={handleImportFile}
+      />
+
+      {conflict && (
+        <SyncConflictModal
+          local={currentDocument()}
+          remote={conflict}
+          onResolve={handleResolveConflict}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,263 @@
+import React from 'react';
+import { Course, CurriculumRuleSet, SecondaryProgram, GEN_ED_DOMAIN_LABELS, CREDIT_SOURCE_LABELS } from '../types';
+import { REQUIREMENT_LABELS, REQUIREMENT_LABELS_EN } from '../utils/allocation';
+import { buildAuditReport } from '../utils/auditReport';
+import { isExempted } from '../utils/exemptions';
+import { entryYearToAD } from '../data/curricula';
+import { PROGRAM_KIND_LABELS, PROGRAM_KIND_LABELS_EN } from '../data/programs';
+import { ArrowLeft, Printer } from 'lucide-react';
+
+interface AuditReportProps {
+  courses: Course[];
+  curriculum: CurriculumRuleSet;
+  programs?: SecondaryProgram[];
+  onClose: () => void;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const courseMark = (course: Course) => (course.isPlanned ? '△' : course.isCurrent ? '○' : '');
+
+// Print-optimized, one-page audit for the department office. The browser's print dialog
+// doubles as the PDF export ("另存為 PDF"), so no PDF library is needed.
+const AuditReport: React.FC<AuditReportProps> = ({ courses, curriculum, programs = [], onClose }) => {
+  const report = buildAuditReport(courses, curriculum, programs);
+  const missingRequired = report.requiredCourses.filter((c) => c.status !== 'done');
+
+  return (
+    <div className="min-h-screen bg-gray-200 py-6 print:bg-white print:py-0">
+      {/* Toolbar (screen only) */}
+      <div className="max-w-[210mm] mx-auto flex justify-between mb-3 print:hidden">
+        <button
+          onClick={onClose}
+          className="flex items-center space-x-1 text-sm text-gray-700 hover:text-ntu-red"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>返回 (Back)</span>
+        </button>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center space-x-2 bg-ntu-red text-white font-bold py-2 px-4 text-sm border border-red-900 hover:bg-red-900"
+        >
+          <Printer className="w-4 h-4" />
+          <span>列印 / 另存 PDF (Print)</span>
+        </button>
+      </div>
+
+      <div className="max-w-[210mm] mx-auto bg-white shadow p-8 text-[11px] leading-snug text-gray-900 print:shadow-none print:p-0">
+        {/* Heading */}
+        <div className="border-b-2 border-ntu-red pb-2 mb-3 flex justify-between items-end">
+          <div>
+            <h1 className="text-xl font-serif font-bold">畢業學分檢核表 Graduation Audit Report</h1>
+            <p className="text-xs text-gray-700">
+              國立臺灣大學 {curriculum.department} {curriculum.entryYear}學年度入學 ({curriculum.departmentEn}, {entryYearToAD(curriculum.entryYear)} Entry)
+            </p>
+          </div>
+          <div className="text-right text-[10px] text-gray-600">
+            <div>規則版本 Rule set: <span className="font-mono">{curriculum.id} v{curriculum.version}</span></div>
+            <div>產生日期 Generated: <span className="font-mono">{formatDate(report.generatedAt)}</span></div>
+          </div>
+        </div>
+
+        {/* Totals and GPA */}
+        <div className="grid grid-cols-4 gap-2 mb-3">
+          <div className="border border-gray-300 p-2">
+            <div className="text-[10px] text-gray-600">總學分 Total credits</div>
+            <div className="text-base font-bold font-mono">
+              {report.total.earned}
+              {report.total.projected > 0 && <span className="text-xs font-normal"> +{report.total.projected}○</span>}
+              <span className="text-xs font-normal text-gray-500"> / {report.total.required}</span>
+            </div>
+          </div>
+          <div className="border border-gray-300 p-2">
+            <div className="text-[10px] text-gray-600">尚缺 Remaining</div>
+            <div className="text-base font-bold font-mono">{report.total.missing}</div>
+          </div>
+          <div className="border border-gray-300 p-2">
+            <div className="text-[10px] text-gray-600">GPA 目前 Current</div>
+            <div className="text-base font-bold font-mono">{report.gpa.current.toFixed(2)}</div>
+          </div>
+          <div className="border border-gray-300 p-2">
+            <div className="text-[10px] text-gray-600">GPA 預估 Projected</div>
+            <div className="text-base font-bold font-mono">{report.gpa.projected.toFixed(2)}</div>
+          </div>
+        </div>
+
+        {/* Requirement buckets with the courses counted in each */}
+        <h2 className="font-bold text-sm mb-1">學分類別 Requirement Buckets</h2>
+        <table className="w-full ntu-table border-collapse mb-3">
+          <thead>
+            <tr>
+              <th className="w-32">類別 Category</th>
+              <th className="w-12">應修<br />Req.</th>
+              <th className="w-12">已修<br />Earned</th>
+              <th className="w-12">修習中<br />In prog.</th>
+              <th className="w-12">尚缺<br />Missing</th>
+              <th>採計課程 Courses counted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.buckets.map(({ key, required, allocation, courses: bucketCourses, missing }) => {
+              const spilledIn = allocation.spilledIn.earned + allocation.spilledIn.projected;
+              const spilledOut = allocation.spilledOut.earned + allocation.spilledOut.projected;
+              return (
+                <tr key={key} className="align-top">
+                  <td className="!text-[11px] font-bold">
+                    {REQUIREMENT_LABELS[key]}
+                    <div className="font-normal text-[10px] text-gray-600">{REQUIREMENT_LABELS_EN[key]}</div>
+                  </td>
+                  <td className="!text-[11px] text-center font-mono">{required}</td>
+                  <td className="!text-[11px] text-center font-mono">{allocation.earned}</td>
+                  <td className="!text-[11px] text-center font-mono">{allocation.projected || '—'}</td>
+                  <td className={`!text-[11px] text-center font-mono font-bold ${missing > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                    {missing > 0 ? missing : '✓'}
+                  </td>
+                  <td className="!text-[10px]">
+                    {bucketCourses.length === 0
+                      ? <span className="text-gray-400">—</span>
+                      : bucketCourses.map((c) => `${c.name}${courseMark(c)} ${c.credits}`).join('、')}
+                    {spilledIn > 0 && <div className="text-gray-600">含其他類別轉入 {spilledIn} 學分 (Overflow in)</div>}
+                    {spilledOut > 0 && allocation.spillTarget && (
+                      <div className="text-gray-600">超出 {spilledOut} 學分轉入{REQUIREMENT_LABELS[allocation.spillTarget]} (Overflow out)</div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="grid grid-cols-2 gap-4 mb-3">
+          {/* Required courses still open */}
+          <div>
+            <h2 className="font-bold text-sm mb-1">未完成系訂必修 Outstanding Required Courses</h2>
+            {report.requiredCourses.length === 0 ? (
+              <p className="text-gray-500">此規則未列出系訂必修科目清單。(No required-course list.)</p>
+            ) : missingRequired.length === 0 ? (
+              <p className="text-green-700 font-bold">全部完成 (All completed)</p>
+            ) : (
+              <ul className="list-disc list-inside">
+                {missingRequired.map(({ requirement, status, earned }) => (
+                  <li key={requirement.name}>
+                    {requirement.name} ({earned}/{requirement.credits})
+                    <span className="text-gray-600">
+                      {status === 'inProgress' ? ' — 修習中' : status === 'planned' ? ' — 已規劃' : ' — 未修'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* 通識 domain coverage */}
+          <div>
+            <h2 className="font-bold text-sm mb-1">通識領域 General Education Domains</h2>
+            {report.genEd && curriculum.genEdDomains ? (
+              <>
+                <p className="mb-1">
+                  已涵蓋 {report.genEd.coveredCount} / {curriculum.genEdDomains.minDomains} 領域
+                  (每領域至少 {curriculum.genEdDomains.minCreditsPerDomain} 學分)
+                  {report.genEd.isMet ? <span className="text-green-700 font-bold"> ✓</span> : <span className="text-red-700 font-bold"> 未達</span>}
+                </p>
+                <div className="grid grid-cols-2 gap-x-2">
+                  {report.genEd.domains.map((d) => (
+                    <span key={d.domain} className={d.isCovered ? 'font-bold' : 'text-gray-500'}>
+                      {d.domain} {GEN_ED_DOMAIN_LABELS[d.domain]} {d.earned}{d.projected > 0 ? `+${d.projected}○` : ''}
+                    </span>
+                  ))}
+                </div>
+                {report.genEd.untagged > 0 && (
+                  <p className="text-[10px] text-gray-500 mt-1">* 尚有 {report.genEd.untagged} 門通識未設定領域</p>
+                )}
+              </>
+            ) : (
+              <p className="text-gray-500">此規則無領域限制。(No domain constraint.)</p>
+            )}
+          </div>
+        </div>
+
+        {/* Double major / minor */}
+        {report.programs.length > 0 && (
+          <>
+            <h2 className="font-bold text-sm mb-1">雙主修 / 輔系 Secondary Programs</h2>
+            <table className="w-full ntu-table border-collapse mb-3">
+              <thead>
+                <tr>
+                  <th className="w-40">學程 Program</th>
+                  <th className="w-12">應修<br />Req.</th>
+                  <th className="w-12">已修<br />Earned</th>
+                  <th className="w-12">修習中<br />In prog.</th>
+                  <th className="w-16">共用<br />Shared</th>
+                  <th>未完成科目 Outstanding courses</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.programs.map(({ program, credits, shared, requiredCourses }) => {
+                  const open = requiredCourses.filter((r) => r.status !== 'done');
+                  return (
+                    <tr key={program.id} className="align-top">
+                      <td className="!text-[11px] font-bold">
+                        {program.department} {PROGRAM_KIND_LABELS[program.kind]}
+                        <div className="font-normal text-[10px] text-gray-600">{PROGRAM_KIND_LABELS_EN[program.kind]}, {program.departmentEn}</div>
+                      </td>
+                      <td className="!text-[11px] text-center font-mono">{program.requiredCredits}</td>
+                      <td className="!text-[11px] text-center font-mono">{credits.earned}</td>
+                      <td className="!text-[11px] text-center font-mono">{credits.projected || '—'}</td>
+                      <td className="!text-[11px] text-center font-mono">{shared}/{program.maxSharedCredits}</td>
+                      <td className="!text-[10px]">
+                        {open.length === 0
+                          ? <span className="text-green-700 font-bold">✓</span>
+                          : open.map((r) => `${r.requirement.name} (${r.earned}/${r.requirement.credits})`).join('、')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {/* Exemption and transfer credits */}
+        {report.exemptions.claimed > 0 && (
+          <div className="mb-3">
+            <h2 className="font-bold text-sm mb-1">抵免 / 轉學分 Exempted & Transfer Credits</h2>
+            <p>
+              採計 {report.exemptions.counted} 學分
+              {report.exemptions.maxCredits !== null && ` (上限 ${report.exemptions.maxCredits} 學分)`}：
+              {courses
+                .filter(isExempted)
+                .map((c) => `${c.name} ${c.credits} (${CREDIT_SOURCE_LABELS[c.source!]}${c.approvalRef ? ` ${c.approvalRef}` : ''})`)
+                .join('、')}
+            </p>
+            {report.exemptions.excluded.map(({ course, credits, reason }) => (
+              <p key={course.id} className="text-red-700">
+                {course.name} {credits} 學分不採計 — {reason === 'cap' ? '超過抵免上限 (Over cap)' : '此類別不可抵免 (Not allowed in this category)'}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Forecast */}
+        <p className="mb-3">
+          <span className="font-bold">畢業預估 Forecast：</span>
+          {report.forecast.metNow
+            ? '已修畢學分已達所有畢業門檻。(All requirements met)'
+            : report.forecast.semester
+              ? `依目前修課與規劃，最早於 ${report.forecast.semester} 學期結束時達成所有畢業門檻。`
+              : '依目前修課與規劃尚無法達成所有畢業門檻。'}
+        </p>
+
+        {/* Legend and disclaimer */}
+        <div className="border-t border-gray-300 pt-2 text-[10px] text-gray-600 space-y-0.5">
+          <p>○ 本學期修習中 (In progress)；△ 未來學期規劃 (Planned, not counted)。尚缺 = 應修 − 已修 − 修習中。體育不計入畢業學分；不及格與重複修習之課程不列入。</p>
+          <p>GPA 採 NTU 4.3 制；預估 GPA 含修習中課程之預期成績。</p>
+          <p className="font-bold text-gray-800">此為輔助工具，實際畢業資格請依教務處審核為準。(For reference only; the Office of Academic Affairs makes the final graduation audit.)</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditReport;
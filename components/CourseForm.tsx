@@ -1,35 +1,40 @@
 import React, { useState } from 'react';
-import { Course, CourseCategory, Grade } from '../types';
-import { PlusCircle, Clock } from 'lucide-react';
+import { Course, CourseCategory, CreditSource, CurriculumRuleSet, GenEdDomain, Grade, GEN_ED_DOMAIN_LABELS, CREDIT_SOURCES, CREDIT_SOURCE_LABELS } from '../types';
+import { GEN_ED_DOMAINS } from '../utils/genEd';
+import { CatalogMatch } from '../utils/catalogSearch';
+import CourseNameInput from './CourseNameInput';
+import { PlusCircle, Clock, CalendarClock, CheckCircle2 } from 'lucide-react';
 
 interface CourseFormProps {
+  curriculum: CurriculumRuleSet;
   onAddCourse: (course: Course) => void;
 }
 
-const COMMON_COURSES = [
-  "會計學原理",
-  "微積分(乙)",
-  "經濟學",
-  "民法概要",
-  "中級會計學",
-  "成本與管理會計學",
-  "統計學",
-  "企業管理",
-  "商事法",
-  "高等會計學",
-  "審計學",
-  "財務管理",
-  "稅務法規",
-  "會計資訊系統"
+type CourseStatus = 'done' | 'current' | 'planned';
+
+const STATUS_OPTIONS: { value: CourseStatus; label: string; hint: string }[] = [
+  { value: 'done', label: '已修畢', hint: '計入已修得學分與 GPA' },
+  { value: 'current', label: '本學期修習中', hint: '計入預覽學分與預估 GPA' },
+  { value: 'planned', label: '未來規劃', hint: '計入規劃學分，用於試算畢業學期' },
 ];
 
-const CourseForm: React.FC<CourseFormProps> = ({ onAddCourse }) => {
+const CourseForm: React.FC<CourseFormProps> = ({ curriculum, onAddCourse }) => {
   const [semester, setSemester] = useState('113-2');
   const [name, setName] = useState('');
   const [credits, setCredits] = useState<number>(3);
   const [category, setCategory] = useState<CourseCategory>('系訂必修');
   const [grade, setGrade] = useState<Grade>('A+');
-  const [isCurrent, setIsCurrent] = useState(false);
+  const [status, setStatus] = useState<CourseStatus>('done');
+  const [genEdDomain, setGenEdDomain] = useState<GenEdDomain | ''>('');
+  const [source, setSource] = useState<CreditSource>('taken');
+  const [sourceInstitution, setSourceInstitution] = useState('');
+  const [approvalRef, setApprovalRef] = useState('');
+
+  // A catalog pick fills in its credits and how it counts for this curriculum
+  const handleCatalogSelect = ({ entry, category: catalogCategory }: CatalogMatch) => {
+    setCredits(entry.credits);
+    if (catalogCategory) setCategory(catalogCategory);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,7 +47,14 @@ const CourseForm: React.FC<CourseFormProps> = ({ onAddCourse }) => {
       credits,
       category,
       grade,
-      isCurrent
+      isCurrent: status === 'current',
+      isPlanned: status === 'planned' || undefined,
+      genEdDomain: category === '通識' && genEdDomain ? genEdDomain : undefined,
+      ...(source !== 'taken' && {
+        source,
+        sourceInstitution: sourceInstitution.trim() || undefined,
+        approvalRef: approvalRef.trim() || undefined,
+      }),
     };
 
     onAddCourse(newCourse);
@@ -88,22 +100,17 @@ const CourseForm: React.FC<CourseFormProps> = ({ onAddCourse }) => {
 
         <div>
             <label className="block text-xs font-bold text-gray-700 mb-1">課程名稱 (Course Name)</label>
-            <input
-                list="course-suggestions"
-                type="text"
+            <CourseNameInput
                 required
                 value={name}
-                onChange={(e) => setName(e.target.value)}
-                placeholder="輸入或選擇課程..."
+                curriculum={curriculum}
+                onChange={setName}
+                onSelect={handleCatalogSelect}
+                placeholder="輸入課名、課號或英文名稱..."
                 className="w-full border border-gray-300 p-2 text-sm focus:border-ntu-red focus:ring-1 focus:ring-ntu-red outline-none"
             />
-            <datalist id="course-suggestions">
-                {COMMON_COURSES.map((course) => (
-                    <option key={course} value={course} />
-                ))}
-            </datalist>
             <p className="text-[10px] text-gray-500 mt-1">
-                *可從選單快速選擇會計系核心課程
+                *從課程目錄選擇即自動帶入學分與類別
             </p>
         </div>
 
@@ -126,7 +133,7 @@ const CourseForm: React.FC<CourseFormProps> = ({ onAddCourse }) => {
             </div>
             <div>
                 <label className="block text-xs font-bold text-gray-700 mb-1">
-                    {isCurrent ? '預估成績 (Predicted)' : '成績 (Grade)'}
+                    {status === 'done' ? '成績 (Grade)' : '預估成績 (Predicted)'}
                 </label>
                 <select
                     value={grade}
@@ -148,18 +155,83 @@ const CourseForm: React.FC<CourseFormProps> = ({ onAddCourse }) => {
             </div>
         </div>
 
-        {/* Current Semester Toggle */}
-        <div className="flex items-center bg-blue-50 border border-blue-200 p-2 rounded cursor-pointer" onClick={() => setIsCurrent(!isCurrent)}>
-            <div className={`w-4 h-4 border border-gray-400 rounded mr-2 flex items-center justify-center bg-white ${isCurrent ? 'bg-blue-600 border-blue-600' : ''}`}>
-                {isCurrent && <div className="w-2 h-2 bg-white rounded-full" />}
+        {category === '通識' && (
+            <div>
+                <label className="block text-xs font-bold text-gray-700 mb-1">通識領域 (Domain)</label>
+                <select
+                    value={genEdDomain}
+                    onChange={(e) => setGenEdDomain(e.target.value as GenEdDomain | '')}
+                    className="w-full border border-gray-300 p-2 text-sm bg-white focus:border-ntu-red focus:ring-1 focus:ring-ntu-red outline-none"
+                >
+                    <option value="">未設定 (Not set)</option>
+                    {GEN_ED_DOMAINS.map((d) => (
+                        <option key={d} value={d}>{d} {GEN_ED_DOMAIN_LABELS[d]}</option>
+                    ))}
+                </select>
             </div>
-            <div className="flex flex-col select-none">
-                <span className="text-sm font-bold text-blue-900 flex items-center">
-                    <Clock className="w-3 h-3 mr-1" />
-                    本學期正在修習 (In Progress)
-                </span>
-                <span className="text-[10px] text-blue-700">勾選後將計入預覽學分與預估 GPA</span>
+        )}
+
+        {/* Where the credits come from: taken here, or 抵免 / transfer / exam waiver */}
+        <div>
+            <label className="block text-xs font-bold text-gray-700 mb-1">學分來源 (Source)</label>
+            <select
+                value={source}
+                onChange={(e) => setSource(e.target.value as CreditSource)}
+                className="w-full border border-gray-300 p-2 text-sm bg-white focus:border-ntu-red focus:ring-1 focus:ring-ntu-red outline-none"
+            >
+                {CREDIT_SOURCES.map((s) => (
+                    <option key={s} value={s}>{CREDIT_SOURCE_LABELS[s]}</option>
+                ))}
+            </select>
+            {source !== 'taken' && (
+                <div className="grid grid-cols-2 gap-3 mt-2">
+                    <input
+                        type="text"
+                        value={sourceInstitution}
+                        onChange={(e) => setSourceInstitution(e.target.value)}
+                        placeholder="原校/單位 (Institution)"
+                        className="w-full border border-gray-300 p-2 text-sm focus:border-ntu-red focus:ring-1 focus:ring-ntu-red outline-none"
+                    />
+                    <input
+                        type="text"
+                        value={approvalRef}
+                        onChange={(e) => setApprovalRef(e.target.value)}
+                        placeholder="核准文號 (Approval ref)"
+                        className="w-full border border-gray-300 p-2 text-sm focus:border-ntu-red focus:ring-1 focus:ring-ntu-red outline-none"
+                    />
+                </div>
+            )}
+            {source !== 'taken' && (
+                <p className="text-[10px] text-gray-500 mt-1">*不計入 GPA；計入畢業學分，受抵免上限限制</p>
+            )}
+        </div>
+
+        {/* Status: completed, in progress this semester, or planned for a future one */}
+        <div>
+            <div className="grid grid-cols-3 gap-1">
+                {STATUS_OPTIONS.map((option) => (
+                    <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setStatus(option.value)}
+                        className={`flex items-center justify-center p-2 text-xs font-bold border rounded transition-colors ${
+                            status === option.value
+                                ? option.value === 'planned' ? 'bg-violet-600 border-violet-700 text-white'
+                                : option.value === 'current' ? 'bg-blue-600 border-blue-700 text-white'
+                                : 'bg-gray-700 border-gray-800 text-white'
+                                : 'bg-white border-gray-300 text-gray-600 hover:border-gray-400'
+                        }`}
+                    >
+                        {option.value === 'done' && <CheckCircle2 className="w-3 h-3 mr-1" />}
+                        {option.value === 'current' && <Clock className="w-3 h-3 mr-1" />}
+                        {option.value === 'planned' && <CalendarClock className="w-3 h-3 mr-1" />}
+                        {option.label}
+                    </button>
+                ))}
             </div>
+            <p className="text-[10px] text-gray-500 mt-1">
+                *{STATUS_OPTIONS.find((o) => o.value === status)?.hint}
+            </p>
         </div>
 
         <button
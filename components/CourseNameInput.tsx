@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CurriculumRuleSet } from '../types';
+import { CatalogMatch, searchCatalog } from '../utils/catalogSearch';
+
+interface CourseNameInputProps {
+  value: string;
+  curriculum: CurriculumRuleSet;
+  onChange: (name: string) => void;
+  // Called when a catalog entry is picked; the name itself arrives through onChange first
+  onSelect: (match: CatalogMatch) => void;
+  className?: string;
+  placeholder?: string;
+  required?: boolean;
+}
+
+// Course name field with fuzzy catalog suggestions (course number, Chinese or English name).
+// The list is fixed-positioned under the input so scrolling table containers do not clip it.
+const CourseNameInput: React.FC<CourseNameInputProps> = ({ value, curriculum, onChange, onSelect, className = '', placeholder, required }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const matches = isOpen ? searchCatalog(value, curriculum) : [];
+  const rect = isOpen ? inputRef.current?.getBoundingClientRect() : undefined;
+
+  // The list would drift away from the input when the page scrolls, so close it instead
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: Event) => {
+      if (!listRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('scroll', close, true);
+    return () => window.removeEventListener('scroll', close, true);
+  }, [isOpen]);
+
+  const pick = (match: CatalogMatch) => {
+    onChange(match.entry.name);
+    onSelect(match);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (matches.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlight((highlight + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight((highlight - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(matches[Math.min(highlight, matches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="text"
+        required={required}
+        value={value}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlight(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className={className}
+      />
+      {matches.length > 0 && rect && (
+        <ul
+          ref={listRef}
+          style={{ top: rect.bottom + 2, left: rect.left, width: Math.max(rect.width, 256) }}
+          className="fixed z-50 bg-white border border-gray-300 shadow-lg max-h-60 overflow-y-auto text-xs text-left font-normal"
+        >
+          {matches.map((match, i) => (
+            <li
+              key={match.entry.code}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(match);
+              }}
+              onMouseEnter={() => setHighlight(i)}
+              className={`px-2 py-1 cursor-pointer flex justify-between items-center gap-2 ${i === highlight ? 'bg-yellow-50' : ''}`}
+            >
+              <div className="overflow-hidden">
+                <span className="font-mono text-gray-400 mr-1">{match.entry.code}</span>
+                <span className="font-bold text-gray-800">{match.entry.name}</span>
+                <span className="block text-[10px] text-gray-500 truncate">{match.entry.nameEn}</span>
+              </div>
+              <div className="text-right whitespace-nowrap text-[10px] text-gray-600">
+                <div>{match.entry.credits} 學分</div>
+                {match.category && <div className="text-ntu-red">{match.category}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+};
+
+export default CourseNameInput;
@@ -1,17 +1,75 @@
-import React, { useState } from 'react';
-import { Course, CourseCategory, Grade } from '../types';
-import { Trash2, BookOpen, Layers, Pencil, Check, X, Clock } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Course, CourseCategory, CreditSource, CurriculumRuleSet, GenEdDomain, Grade, GEN_ED_DOMAIN_LABELS, COURSE_CATEGORIES, CREDIT_SOURCES, CREDIT_SOURCE_LABELS, GRADES } from '../types';
+import { GEN_ED_DOMAINS } from '../utils/genEd';
+import { CatalogMatch } from '../utils/catalogSearch';
+import {
+  CourseFilters,
+  CourseSortKey,
+  CourseTableView,
+  DEFAULT_COURSE_FILTERS,
+  filterCourses,
+  isFiltering,
+  listSemesters,
+  sortCourses,
+} from '../utils/courseQuery';
+import { loadCourseTableView, saveCourseTableView } from '../services/storage';
+import { resolveAttempts } from '../utils/retakes';
+import { isExempted } from '../utils/exemptions';
+import { checkPrerequisites, describePrerequisiteIssue, PrerequisiteIssue } from '../utils/prerequisites';
+import CourseNameInput from './CourseNameInput';
+import { Trash2, BookOpen, Layers, Pencil, Check, X, Clock, XCircle, Repeat, CalendarClock, AlertTriangle, FileCheck, Search, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react';
 
 interface CourseTableProps {
   courses: Course[];
+  curriculum: CurriculumRuleSet;
   onDelete: (id: string) => void;
   onUpdate: (course: Course) => void;
 }
 
-const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }) => {
+// Sections when grouped by category, in display order
+const CATEGORY_SECTIONS: { category: CourseCategory; title: string; color: string }[] = [
+  { category: '共同必修', title: '共同必修 (Common Required)', color: 'text-teal-700' },
+  { category: '體育', title: '體育課程 (Physical Education)', color: 'text-blue-700' },
+  { category: '系訂必修', title: '系訂必修 (Department Required)', color: 'text-red-700' },
+  { category: '指定選修', title: '指定選修 (Designated Electives)', color: 'text-purple-700' },
+  { category: '一般選修', title: '一般選修 (General Electives)', color: 'text-indigo-700' },
+  { category: '通識', title: '通識 (General Education)', color: 'text-orange-700' },
+  { category: '其他', title: '其他課程 (Others)', color: 'text-gray-700' },
+];
+
+const GROUPING_OPTIONS: { value: CourseTableView['grouping']; label: string }[] = [
+  { value: 'category', label: '依類別' },
+  { value: 'semester', label: '依學期' },
+  { value: 'flat', label: '不分組' },
+];
+
+const CourseTable: React.FC<CourseTableProps> = ({ courses, curriculum, onDelete, onUpdate }) => {
   // State for tracking which row is being edited
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValues, setEditValues] = useState<Course | null>(null);
+  // Search is per visit; filters, grouping and sort order are remembered
+  const [search, setSearch] = useState('');
+  const [view, setView] = useState<CourseTableView>(loadCourseTableView);
+
+  useEffect(() => {
+    saveCourseTableView(view);
+  }, [view]);
+
+  const setFilter = <K extends keyof CourseFilters>(key: K, value: CourseFilters[K]) =>
+    setView((prev) => ({ ...prev, filters: { ...prev.filters, [key]: value } }));
+
+  // Clicking the sorted column flips the direction; another column starts ascending
+  const toggleSort = (key: CourseSortKey) =>
+    setView((prev) => ({
+      ...prev,
+      sortKey: key,
+      sortDirection: prev.sortKey === key && prev.sortDirection === 'asc' ? 'desc' : 'asc',
+    }));
+
+  const resetFilters = () => {
+    setSearch('');
+    setView((prev) => ({ ...prev, filters: DEFAULT_COURSE_FILTERS }));
+  };
 
   const startEdit = (course: Course) => {
     setEditingId(course.id);
@@ -36,6 +94,13 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
     }
   };
 
+  // A catalog pick fills in its credits and how it counts for this curriculum
+  const handleCatalogSelect = ({ entry, category }: CatalogMatch) => {
+    if (editValues) {
+      setEditValues({ ...editValues, name: entry.name, credits: entry.credits, category: category || editValues.category });
+    }
+  };
+
   if (courses.length === 0) {
     return (
       <div className="bg-white border border-gray-300 p-8 text-center text-gray-500 shadow-sm mt-6">
@@ -45,56 +110,34 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
     );
   }
 
-  // Group courses by Category
-  const groupedCourses: Record<CourseCategory, Course[]> = {
-    '共同必修': [],
-    '系訂必修': [],
-    '指定選修': [],
-    '一般選修': [],
-    '通識': [],
-    '體育': [],
-    '其他': [],
-  };
+  const semesters = listSemesters(courses);
+  const visibleCourses = sortCourses(filterCourses(courses, view.filters, search), view.sortKey, view.sortDirection);
+  const hasFilter = !!search.trim() || isFiltering(view.filters);
 
-  courses.forEach(course => {
-    if (groupedCourses[course.category]) {
-      groupedCourses[course.category].push(course);
-    } else {
-      groupedCourses['其他'].push(course);
-    }
-  });
-
-  // Helper to compare semesters numerically (e.g. 111-1 vs 111-2)
-  const compareSemesters = (semA: string, semB: string) => {
-    // Split by non-digit characters to handle 111-1, 111/1, etc.
-    const splitA = semA.split(/[^0-9]/).map(s => parseInt(s, 10)).filter(n => !isNaN(n));
-    const splitB = semB.split(/[^0-9]/).map(s => parseInt(s, 10)).filter(n => !isNaN(n));
+  // Failed and repeated attempts (credits only count once)
+  const attempts = resolveAttempts(courses);
 
-    // Compare Academic Year
-    const yearA = splitA[0] || 0;
-    const yearB = splitB[0] || 0;
-    if (yearA !== yearB) return yearA - yearB;
+  // Courses taken or planned before their prerequisites
+  const prerequisiteIssues = new Map<string, PrerequisiteIssue[]>();
+  checkPrerequisites(courses, curriculum.prerequisites || []).forEach((issue) => {
+    prerequisiteIssues.set(issue.course.id, [...(prerequisiteIssues.get(issue.course.id) || []), issue]);
+  });
 
-    // Compare Semester (if exists)
-    const termA = splitA[1] || 0;
-    const termB = splitB[1] || 0;
-    return termA - termB;
-  };
+  const renderSortHeader = (label: string, key: CourseSortKey, className: string) => (
+    <th className={`${className} cursor-pointer select-none hover:bg-gray-300`} onClick={() => toggleSort(key)}>
+      <span className="inline-flex items-center">
+        {label}
+        {view.sortKey === key && (view.sortDirection === 'asc' ? <ArrowUp className="w-3 h-3 ml-0.5" /> : <ArrowDown className="w-3 h-3 ml-0.5" />)}
+      </span>
+    </th>
+  );
 
   // Helper to render a table section
-  const renderSection = (title: string, category: CourseCategory, color: string) => {
-    // Sort courses chronologically using the helper
-    const categoryCourses = groupedCourses[category].sort((a, b) => {
-        const semDiff = compareSemesters(a.semester, b.semester);
-        if (semDiff !== 0) return semDiff;
-        // Secondary sort by name if semesters are identical
-        return a.name.localeCompare(b.name);
-    });
-
+  const renderSection = (key: string, title: string, categoryCourses: Course[], color: string) => {
     if (categoryCourses.length === 0) return null;
 
     return (
-      <div className="mb-6 last:mb-0">
+      <div key={key} className="mb-6 last:mb-0">
         <div className={`flex items-center gap-2 mb-2 px-2 py-1 ${color} bg-opacity-10 border-l-4 ${color.replace('text', 'border')}`}>
             <Layers className={`w-4 h-4 ${color}`} />
             <h3 className={`font-bold ${color}`}>{title} ({categoryCourses.length})</h3>
@@ -103,11 +146,11 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
           <table className="w-full ntu-table border-collapse bg-white">
             <thead>
               <tr>
-                <th className="w-24 text-center">學年期</th>
-                <th className="text-left">課程名稱</th>
-                <th className="w-16 text-center">學分</th>
-                <th className="w-20 text-center">成績</th>
-                <th className="w-32 text-center">類別</th>
+                {renderSortHeader('學年期', 'semester', 'w-24 text-center')}
+                {renderSortHeader('課程名稱', 'name', 'text-left')}
+                {renderSortHeader('學分', 'credits', 'w-16 text-center')}
+                {renderSortHeader('成績', 'grade', 'w-20 text-center')}
+                {renderSortHeader('類別', 'category', 'w-32 text-center')}
                 <th className="w-24 text-center">操作</th>
               </tr>
             </thead>
@@ -115,6 +158,10 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
               {categoryCourses.map((course, index) => {
                 const isEditing = editingId === course.id;
                 const isCurrent = course.isCurrent;
+                const isPlanned = course.isPlanned;
+                const attempt = attempts.get(course.id);
+                const isNotCounted = attempt ? !attempt.countsForCredits : false;
+                const sequenceIssues = prerequisiteIssues.get(course.id);
                 
                 if (isEditing && editValues) {
                     return (
@@ -128,21 +175,59 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
                                 />
                              </td>
                              <td className="p-1">
-                                <input 
-                                    type="text" 
+                                <CourseNameInput
                                     value={editValues.name}
-                                    onChange={(e) => handleEditChange('name', e.target.value)}
+                                    curriculum={curriculum}
+                                    onChange={(name) => handleEditChange('name', name)}
+                                    onSelect={handleCatalogSelect}
                                     className="w-full border border-gray-400 p-1 text-xs font-bold"
                                 />
-                                <div className="mt-1 flex items-center">
+                                <div className="mt-1 flex items-center space-x-2">
                                     <input 
                                         type="checkbox"
                                         id={`edit-current-${course.id}`}
                                         checked={!!editValues.isCurrent}
-                                        onChange={(e) => handleEditChange('isCurrent', e.target.checked)}
+                                        onChange={(e) => setEditValues({ ...editValues, isCurrent: e.target.checked, isPlanned: e.target.checked ? undefined : editValues.isPlanned })}
                                         className="mr-1"
                                     />
                                     <label htmlFor={`edit-current-${course.id}`} className="text-[10px] text-gray-600">本學期 (In Progress)</label>
+                                    <input 
+                                        type="checkbox"
+                                        id={`edit-planned-${course.id}`}
+                                        checked={!!editValues.isPlanned}
+                                        onChange={(e) => setEditValues({ ...editValues, isPlanned: e.target.checked || undefined, isCurrent: e.target.checked ? false : editValues.isCurrent })}
+                                        className="mr-1"
+                                    />
+                                    <label htmlFor={`edit-planned-${course.id}`} className="text-[10px] text-gray-600">規劃 (Planned)</label>
+                                </div>
+                                <div className="mt-1 flex items-center space-x-1">
+                                    <select
+                                        value={editValues.source || 'taken'}
+                                        onChange={(e) => handleEditChange('source', e.target.value === 'taken' ? undefined : e.target.value as CreditSource)}
+                                        className="border border-gray-400 p-0.5 text-[10px] bg-white"
+                                    >
+                                        {CREDIT_SOURCES.map((s) => (
+                                            <option key={s} value={s}>{CREDIT_SOURCE_LABELS[s]}</option>
+                                        ))}
+                                    </select>
+                                    {isExempted(editValues) && (
+                                        <>
+                                            <input
+                                                type="text"
+                                                value={editValues.sourceInstitution || ''}
+                                                onChange={(e) => handleEditChange('sourceInstitution', e.target.value || undefined)}
+                                                placeholder="原校/單位"
+                                                className="w-20 border border-gray-400 p-0.5 text-[10px]"
+                                            />
+                                            <input
+                                                type="text"
+                                                value={editValues.approvalRef || ''}
+                                                onChange={(e) => handleEditChange('approvalRef', e.target.value || undefined)}
+                                                placeholder="核准文號"
+                                                className="w-20 border border-gray-400 p-0.5 text-[10px]"
+                                            />
+                                        </>
+                                    )}
                                 </div>
                              </td>
                              <td className="text-center p-1">
@@ -188,6 +273,18 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
                                     <option value="體育">體育</option>
                                     <option value="其他">其他</option>
                                 </select>
+                                {editValues.category === '通識' && (
+                                    <select
+                                        value={editValues.genEdDomain || ''}
+                                        onChange={(e) => handleEditChange('genEdDomain', (e.target.value as GenEdDomain) || undefined)}
+                                        className="w-full border border-gray-400 p-1 text-xs text-center bg-white mt-1"
+                                    >
+                                        <option value="">領域未設定</option>
+                                        {GEN_ED_DOMAINS.map((d) => (
+                                            <option key={d} value={d}>{d} {GEN_ED_DOMAIN_LABELS[d]}</option>
+                                        ))}
+                                    </select>
+                                )}
                              </td>
                              <td className="text-center p-1 flex items-center justify-center space-x-1">
                                 <button
@@ -216,6 +313,9 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
                             ${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} 
                             hover:bg-yellow-50 
                             ${isCurrent ? 'bg-blue-50 bg-opacity-60 border-l-2 border-l-blue-400' : ''}
+                            ${isPlanned ? 'bg-violet-50 bg-opacity-60 border-l-2 border-l-violet-400 border-dashed' : ''}
+                            ${isNotCounted ? 'text-gray-400' : ''}
+                            ${sequenceIssues ? '!bg-orange-50 border-l-2 border-l-orange-400' : ''}
                         `}
                     >
                     <td className="text-center text-gray-700 font-mono text-sm">{course.semester}</td>
@@ -228,15 +328,62 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
                                     修習中
                                 </span>
                             )}
+                            {isPlanned && (
+                                <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-violet-100 text-violet-800">
+                                    <CalendarClock className="w-3 h-3 mr-0.5" />
+                                    規劃中
+                                </span>
+                            )}
+                            {attempt?.status === 'failed' && (
+                                <span
+                                    className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 text-red-800"
+                                    title="不及格，不計學分 (Failed: no credits, still counted in GPA)"
+                                >
+                                    <XCircle className="w-3 h-3 mr-0.5" />
+                                    不及格{attempt.countedId ? '・已重修' : ''}
+                                </span>
+                            )}
+                            {attempt?.status === 'superseded' && (
+                                <span
+                                    className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-gray-200 text-gray-700"
+                                    title="重複修習，學分僅計一次 (Repeated course: credits counted once, excluded from GPA)"
+                                >
+                                    <Repeat className="w-3 h-3 mr-0.5" />
+                                    重複修習・不計
+                                </span>
+                            )}
+                            {sequenceIssues && (
+                                <span
+                                    className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-orange-100 text-orange-800"
+                                    title={sequenceIssues.map(describePrerequisiteIssue).join('\n')}
+                                >
+                                    <AlertTriangle className="w-3 h-3 mr-0.5" />
+                                    先修順序
+                                </span>
+                            )}
+                            {isExempted(course) && (
+                                <span
+                                    className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-sky-100 text-sky-800"
+                                    title={[course.sourceInstitution, course.approvalRef && `核准文號 ${course.approvalRef}`, '不計入 GPA (No grade points)'].filter(Boolean).join('\n')}
+                                >
+                                    <FileCheck className="w-3 h-3 mr-0.5" />
+                                    {CREDIT_SOURCE_LABELS[course.source!]}
+                                </span>
+                            )}
                         </div>
                     </td>
-                    <td className="text-center font-mono">{course.credits}</td>
+                    <td className={`text-center font-mono ${isNotCounted ? 'line-through' : ''}`}>{course.credits}</td>
                     <td className={`text-center font-bold ${course.grade === 'F' ? 'text-red-600' : 'text-gray-800'}`}>
                         {course.grade}
-                        {isCurrent && <span className="text-[10px] text-gray-400 block font-normal">(預估)</span>}
+                        {(isCurrent || isPlanned) && <span className="text-[10px] text-gray-400 block font-normal">(預估)</span>}
                     </td>
                      <td className="text-center text-xs text-gray-500">
                         {course.category}
+                        {course.category === '通識' && course.genEdDomain && (
+                            <span className="block text-[10px] text-orange-700" title={GEN_ED_DOMAIN_LABELS[course.genEdDomain]}>
+                                {course.genEdDomain} {GEN_ED_DOMAIN_LABELS[course.genEdDomain]}
+                            </span>
+                        )}
                     </td>
                     <td className="text-center flex items-center justify-center space-x-1">
                         <button
@@ -271,16 +418,119 @@ const CourseTable: React.FC<CourseTableProps> = ({ courses, onDelete, onUpdate }
         <h2 className="text-lg font-bold text-gray-800">歷年修課明細 Course List</h2>
       </div>
       
-      {renderSection('共同必修 (Common Required)', '共同必修', 'text-teal-700')}
-      {renderSection('體育課程 (Physical Education)', '體育', 'text-blue-700')}
-      {renderSection('系訂必修 (Department Required)', '系訂必修', 'text-red-700')}
-      {renderSection('指定選修 (Designated Electives)', '指定選修', 'text-purple-700')}
-      {renderSection('一般選修 (General Electives)', '一般選修', 'text-indigo-700')}
-      {renderSection('通識 (General Education)', '通識', 'text-orange-700')}
-      {renderSection('其他課程 (Others)', '其他', 'text-gray-700')}
-      
+      {prerequisiteIssues.size > 0 && (
+        <div className="mb-4 p-2 bg-orange-50 border border-orange-200 text-xs text-orange-900 flex items-start gap-1">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-bold">{prerequisiteIssues.size} 門課程早於先修課程 (Prerequisite order)</p>
+            {Array.from(prerequisiteIssues.values()).flat().map((issue) => (
+              <p key={`${issue.course.id}-${issue.prerequisite}`}>
+                <span className="font-mono">{issue.course.semester}</span> {issue.course.name}：{describePrerequisiteIssue(issue)}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Toolbar: search, filters and grouping */}
+      <div className="mb-4 p-2 bg-gray-50 border border-gray-200 text-xs space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[10rem]">
+            <Search className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="搜尋課名或學期 (Search)"
+              className="w-full border border-gray-300 pl-6 pr-2 py-1 focus:border-ntu-red outline-none"
+            />
+          </div>
+          <div className="flex border border-gray-300 rounded overflow-hidden">
+            {GROUPING_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setView((prev) => ({ ...prev, grouping: option.value }))}
+                className={`px-2 py-1 ${view.grouping === option.value ? 'bg-gray-700 text-white font-bold' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-gray-600">學期</span>
+          <select
+            value={view.filters.semesterFrom}
+            onChange={(e) => setFilter('semesterFrom', e.target.value)}
+            className="border border-gray-300 p-1 bg-white font-mono"
+          >
+            <option value="">最早</option>
+            {semesters.map((s) => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <span className="text-gray-400">~</span>
+          <select
+            value={view.filters.semesterTo}
+            onChange={(e) => setFilter('semesterTo', e.target.value)}
+            className="border border-gray-300 p-1 bg-white font-mono"
+          >
+            <option value="">最新</option>
+            {semesters.map((s) => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select
+            value={view.filters.grade}
+            onChange={(e) => setFilter('grade', e.target.value as Grade | '')}
+            className="border border-gray-300 p-1 bg-white"
+          >
+            <option value="">全部成績</option>
+            {GRADES.map((g) => <option key={g} value={g}>{g}</option>)}
+          </select>
+          <select
+            value={view.filters.category}
+            onChange={(e) => setFilter('category', e.target.value as CourseCategory | '')}
+            className="border border-gray-300 p-1 bg-white"
+          >
+            <option value="">全部類別</option>
+            {COURSE_CATEGORIES.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <label className="flex items-center space-x-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={view.filters.inProgressOnly}
+              onChange={(e) => setFilter('inProgressOnly', e.target.checked)}
+            />
+            <span>僅修習中</span>
+          </label>
+          <label className="flex items-center space-x-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={view.filters.failedOnly}
+              onChange={(e) => setFilter('failedOnly', e.target.checked)}
+            />
+            <span>僅不及格</span>
+          </label>
+          {hasFilter && (
+            <button onClick={resetFilters} className="flex items-center text-gray-500 hover:text-ntu-red ml-auto">
+              <RotateCcw className="w-3 h-3 mr-0.5" />
+              清除篩選
+            </button>
+          )}
+        </div>
+      </div>
+
+      {visibleCourses.length === 0 && (
+        <p className="p-6 text-center text-sm text-gray-500">沒有符合條件的課程。(No matching courses)</p>
+      )}
+
+      {view.grouping === 'category' && CATEGORY_SECTIONS.map(({ category, title, color }) =>
+        renderSection(category, title, visibleCourses.filter((c) => (COURSE_CATEGORIES.includes(c.category) ? c.category : '其他') === category), color)
+      )}
+      {view.grouping === 'semester' && (view.sortKey === 'semester' && view.sortDirection === 'desc' ? semesters.slice().reverse() : semesters).map((semester) =>
+        renderSection(semester, `${semester} 學期`, visibleCourses.filter((c) => c.semester === semester), 'text-gray-700')
+      )}
+      {view.grouping === 'flat' && renderSection('all', '全部課程 (All Courses)', visibleCourses, 'text-gray-700')}
+
       <div className="mt-4 text-xs text-gray-500 text-right">
-        總計科目數: {courses.length}
+        {hasFilter ? `顯示 ${visibleCourses.length} / ` : '總計科目數: '}{courses.length}
       </div>
     </div>
   );
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CurriculumRuleSet } from '../types';
+import { CURRICULA } from '../data/curricula';
+import { PROGRAM_KIND_LABELS, PROGRAM_KIND_LABELS_EN, SECONDARY_PROGRAMS } from '../data/programs';
+import { BookMarked } from 'lucide-react';
+
+interface CurriculumSelectorProps {
+  curriculum: CurriculumRuleSet;
+  programIds: string[];
+  onChange: (id: string) => void;
+  onProgramsChange: (ids: string[]) => void;
+}
+
+const CurriculumSelector: React.FC<CurriculumSelectorProps> = ({ curriculum, programIds, onChange, onProgramsChange }) => {
+  // Group rule sets by department for the <optgroup> list
+  const departments = Array.from(new Set(CURRICULA.map((c) => c.department)));
+  // Programs of the primary department cannot be taken on top of it
+  const availablePrograms = SECONDARY_PROGRAMS.filter((p) => p.departmentId !== curriculum.departmentId);
+
+  const toggleProgram = (id: string, checked: boolean) => {
+    onProgramsChange(checked ? [...programIds, id] : programIds.filter((p) => p !== id));
+  };
+
+  return (
+    <div className="bg-white border border-gray-300 shadow-sm p-4">
+      <div className="flex items-center space-x-2 border-b-2 border-ntu-red pb-2 mb-3">
+        <BookMarked className="w-5 h-5 text-ntu-red" />
+        <h2 className="text-lg font-bold text-gray-800">適用規則 Curriculum</h2>
+      </div>
+      <label className="block text-xs font-bold text-gray-700 mb-1">系所 / 入學年度 (Department / Entry Year)</label>
+      <select
+        value={curriculum.id}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full border border-gray-300 p-2 text-sm bg-white focus:border-ntu-red focus:ring-1 focus:ring-ntu-red outline-none"
+      >
+        {departments.map((dept) => (
+          <optgroup key={dept} label={dept}>
+            {CURRICULA.filter((c) => c.department === dept).map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.department} {c.entryYear}學年度入學 (v{c.version})
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      <p className="text-[10px] text-gray-500 mt-1">
+        *總學分 {curriculum.requirements.total}，切換後摘要將依新規則重新計算
+      </p>
+
+      <div className="mt-3 pt-3 border-t border-gray-200">
+        <span className="block text-xs font-bold text-gray-700 mb-1">雙主修 / 輔系 (Double Major / Minor)</span>
+        <div className="space-y-1">
+          {availablePrograms.map((p) => (
+            <label key={p.id} className="flex items-center space-x-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={programIds.includes(p.id)}
+                onChange={(e) => toggleProgram(p.id, e.target.checked)}
+              />
+              <span>
+                {p.department} {PROGRAM_KIND_LABELS[p.kind]}
+                <span className="text-gray-500"> ({PROGRAM_KIND_LABELS_EN[p.kind]}, {p.requiredCredits} 學分)</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CurriculumSelector;
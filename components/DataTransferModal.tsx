@@ -0,0 +1,211 @@
+import React, { useState, useRef } from 'react';
+import { Course, RuleSetRef } from '../types';
+import { CourseImportResult, exportCoursesCsv, exportCoursesJson, parseCourseFile } from '../utils/courseFile';
+import { CURRICULA } from '../data/curricula';
+import { X, Download, Upload, FileJson, FileSpreadsheet, AlertCircle, Check, ArrowRight } from 'lucide-react';
+
+export type ImportMode = 'merge' | 'replace';
+
+interface DataTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  courses: Course[];
+  ruleSet: RuleSetRef;
+  onImport: (courses: Course[], mode: ImportMode, ruleSet?: RuleSetRef) => void; // ruleSet: switch to the file's rule set
+}
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const DataTransferModal: React.FC<DataTransferModalProps> = ({ isOpen, onClose, courses, ruleSet, onImport }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<CourseImportResult | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [applyRuleSet, setApplyRuleSet] = useState(true);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const dateStamp = new Date().toISOString().slice(0, 10);
+
+  const handleExportJson = () => {
+    downloadFile(exportCoursesJson(courses, ruleSet), `ntu-courses-${dateStamp}.json`, 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(exportCoursesCsv(courses), `ntu-courses-${dateStamp}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    if (!file) return;
+    setFileName(file.name);
+    setResult(parseCourseFile(file.name, await file.text()));
+  };
+
+  const handleClose = () => {
+    setFileName(null);
+    setResult(null);
+    setMode('merge');
+    setApplyRuleSet(true);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    onClose();
+  };
+
+  // JSON exports record the rule set they were made under; it may not be the active one
+  const fileRuleSet = result?.ruleSet;
+  const fileCurriculum = fileRuleSet && CURRICULA.find((c) => c.id === fileRuleSet.id);
+
+  const handleConfirmImport = () => {
+    if (!result || result.courses.length === 0) return;
+    onImport(result.courses, mode, applyRuleSet && fileCurriculum && fileCurriculum.id !== ruleSet.id ? result.ruleSet : undefined);
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-2xl rounded-lg shadow-xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-ntu-red text-white rounded-t-lg">
+          <div className="flex items-center space-x-2">
+            <Download className="w-5 h-5" />
+            <h3 className="font-bold text-lg">匯出 / 匯入資料 (Export / Import)</h3>
+          </div>
+          <button onClick={handleClose} className="hover:bg-red-800 p-1 rounded transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-grow overflow-auto p-6 space-y-6">
+          {/* Export */}
+          <div>
+            <h4 className="font-bold text-gray-800 mb-2">匯出 (Export) — {courses.length} 門課程</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={handleExportJson}
+                disabled={courses.length === 0}
+                className="flex items-center justify-center space-x-2 border border-gray-300 rounded p-3 text-sm hover:border-ntu-red hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileJson className="w-5 h-5 text-ntu-red" />
+                <span>JSON (完整備份)</span>
+              </button>
+              <button
+                onClick={handleExportCsv}
+                disabled={courses.length === 0}
+                className="flex items-center justify-center space-x-2 border border-gray-300 rounded p-3 text-sm hover:border-ntu-red hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileSpreadsheet className="w-5 h-5 text-green-700" />
+                <span>CSV (Excel)</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Import */}
+          <div>
+            <h4 className="font-bold text-gray-800 mb-2">匯入 (Import)</h4>
+            <input
+              type="file"
+              ref={fileInputRef}
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+            <div
+              onClick={() => fileInputRef.current?.click()}
+              className="cursor-pointer border-2 border-dashed border-gray-300 rounded-lg p-4 text-center hover:border-ntu-red hover:bg-red-50 transition-colors"
+            >
+              <Upload className="w-6 h-6 text-ntu-red mx-auto mb-1" />
+              <p className="text-sm text-gray-700 font-bold">{fileName || '選擇 JSON 或 CSV 檔案'}</p>
+              <p className="text-xs text-gray-400">CSV 欄位：學年期, 課程名稱, 學分, 成績, 類別, 修習中, 通識領域, 規劃中, 來源, 來源學校, 核准文號</p>
+            </div>
+
+            {result && (
+              <div className="mt-4 space-y-3">
+                <div className={`p-3 rounded text-sm flex items-center border ${
+                  result.courses.length > 0 ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+                }`}>
+                  <Check className="w-4 h-4 mr-2" />
+                  可匯入 {result.courses.length} 門課程{result.errors.length > 0 && `，${result.errors.length} 個問題將被略過`}。
+                </div>
+
+                {result.errors.length > 0 && (
+                  <div className="max-h-40 overflow-auto border border-red-200 rounded text-xs">
+                    {result.errors.map((err, idx) => (
+                      <div key={idx} className="flex items-start px-2 py-1 border-b border-red-100 last:border-0 text-red-700">
+                        <AlertCircle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                        <span className="font-mono mr-2 whitespace-nowrap">{err.row > 0 ? `第 ${err.row} 筆` : '檔案'}</span>
+                        <span>{err.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {fileRuleSet && fileRuleSet.id !== ruleSet.id && (
+                  <div className="p-3 rounded text-xs border bg-amber-50 border-amber-200 text-amber-800">
+                    {fileCurriculum ? (
+                      <label className="flex items-center cursor-pointer">
+                        <input type="checkbox" checked={applyRuleSet} onChange={(e) => setApplyRuleSet(e.target.checked)} className="mr-1" />
+                        檔案使用的規則為「{fileCurriculum.department} {fileCurriculum.entryYear}學年度入學」，與目前規則不同；匯入時一併套用 (Apply the file's rule set)
+                      </label>
+                    ) : (
+                      <p>檔案使用的規則「{fileRuleSet.id}」不在本工具中，將沿用目前規則。(Unknown rule set; keeping the current one)</p>
+                    )}
+                  </div>
+                )}
+                {fileRuleSet && fileRuleSet.id === ruleSet.id && fileRuleSet.version !== ruleSet.version && (
+                  <p className="text-xs text-gray-500">
+                    檔案使用規則版本 v{fileRuleSet.version}，目前為 v{ruleSet.version}；將以目前版本計算。
+                  </p>
+                )}
+
+                {result.courses.length > 0 && (
+                  <div className="flex space-x-4 text-sm">
+                    <label className="flex items-center cursor-pointer">
+                      <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mr-1" />
+                      合併 (Merge)：同學期同名課程更新，其餘加入
+                    </label>
+                    <label className="flex items-center cursor-pointer">
+                      <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mr-1" />
+                      取代 (Replace)：清除現有 {courses.length} 門課程
+                    </label>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer Actions */}
+        <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-end space-x-3 rounded-b-lg">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            關閉
+          </button>
+          <button
+            onClick={handleConfirmImport}
+            disabled={!result || result.courses.length === 0}
+            className={`flex items-center px-4 py-2 rounded font-bold text-white transition-colors ${
+              !result || result.courses.length === 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'
+            }`}
+          >
+            確認匯入 (Confirm Import)
+            <ArrowRight className="w-4 h-4 ml-2" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataTransferModal;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { DEFAULT_MODELS, ExtractionProviderKind, ExtractionSettings, PROVIDER_LABELS } from '../services/extraction';
+import { Settings } from 'lucide-react';
+
+interface ExtractionSettingsPanelProps {
+  settings: ExtractionSettings;
+  onChange: (settings: ExtractionSettings) => void;
+}
+
+const ExtractionSettingsPanel: React.FC<ExtractionSettingsPanelProps> = ({ settings, onChange }) => {
+  const handleProviderChange = (provider: ExtractionProviderKind) => {
+    // Swap in the new provider's default model unless the user typed their own
+    const isDefaultModel = !settings.model || settings.model === DEFAULT_MODELS[settings.provider];
+    onChange({ ...settings, provider, model: isDefaultModel ? DEFAULT_MODELS[provider] : settings.model });
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded p-1.5 text-xs font-mono focus:border-ntu-red outline-none';
+
+  return (
+    <details className="border border-gray-200 rounded text-xs text-gray-700">
+      <summary className="cursor-pointer p-2 font-bold flex items-center bg-gray-50">
+        <Settings className="w-4 h-4 mr-1" />
+        AI 設定：{PROVIDER_LABELS[settings.provider]}
+      </summary>
+      <div className="p-3 space-y-2">
+        <div>
+          <label className="block font-bold mb-1">服務提供者 (Provider)</label>
+          <select
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as ExtractionProviderKind)}
+            className={`${inputClass} bg-white`}
+          >
+            {(Object.keys(PROVIDER_LABELS) as ExtractionProviderKind[]).map((kind) => (
+              <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+
+        {settings.provider !== 'mock' && (
+          <>
+            {settings.provider === 'openai' && (
+              <div>
+                <label className="block font-bold mb-1">API 網址 (Base URL)</label>
+                <input
+                  type="text"
+                  value={settings.baseUrl}
+                  onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block font-bold mb-1">模型 (Model)</label>
+              <input
+                type="text"
+                value={settings.model}
+                onChange={(e) => onChange({ ...settings, model: e.target.value })}
+                placeholder={DEFAULT_MODELS[settings.provider]}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block font-bold mb-1">API 金鑰 (API Key)</label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+                placeholder={settings.provider === 'gemini' ? '留空則使用預設金鑰' : '本機模型可留空'}
+                className={inputClass}
+              />
+              <p className="text-[10px] text-gray-500 mt-1">*金鑰只儲存在此瀏覽器，不會同步到雲端。</p>
+            </div>
+          </>
+        )}
+
+        {settings.provider === 'mock' && (
+          <p className="text-[10px] text-gray-500">不連線，固定回傳一組範例課程，用於開發與測試。</p>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ExtractionSettingsPanel;
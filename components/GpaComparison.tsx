@@ -0,0 +1,52 @@
+import React from 'react';
+import { Course } from '../types';
+import { GPA_DEFINITIONS } from '../data/gpaDefinitions';
+import { computeGpa, GPA_SCALES, GpaScale } from '../utils/gpa';
+
+interface GpaComparisonProps {
+  courses: Course[];
+}
+
+const SCALES: GpaScale[] = ['ntu43', 'us40', 'percent'];
+
+// Completed-course GPA under each named definition and scale, side by side
+const GpaComparison: React.FC<GpaComparisonProps> = ({ courses }) => {
+  const results = GPA_DEFINITIONS.map((definition) => computeGpa(courses, definition));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs border border-gray-200">
+        <thead className="bg-gray-100 text-gray-700">
+          <tr>
+            <th className="p-1.5 text-left">GPA 類型</th>
+            {SCALES.map((scale) => (
+              <th key={scale} className="p-1.5 text-center">{GPA_SCALES[scale].label}</th>
+            ))}
+            <th className="p-1.5 text-center">學分</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(({ definition, credits, values }) => (
+            <tr key={definition.id} className="border-t border-gray-100">
+              <td className="p-1.5">
+                <span className="font-bold text-gray-800">{definition.name}</span>
+                <span className="text-gray-400 ml-1">{definition.nameEn}</span>
+              </td>
+              {SCALES.map((scale) => (
+                <td key={scale} className="p-1.5 text-center font-mono">
+                  {values[scale] === null ? <span className="text-gray-300">—</span> : values[scale]!.toFixed(GPA_SCALES[scale].digits)}
+                </td>
+              ))}
+              <td className="p-1.5 text-center font-mono text-gray-500">{credits}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-gray-400 mt-1">
+        *僅計已修畢且有等第之課程；百分制以各等第區間中位數換算，正式申請請以成績單為準。
+      </p>
+    </div>
+  );
+};
+
+export default GpaComparison;
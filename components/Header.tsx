@@ -1,7 +1,13 @@
 import React from 'react';
 import { GraduationCap } from 'lucide-react';
+import { CurriculumRuleSet } from '../types';
+import { entryYearToAD } from '../data/curricula';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  curriculum: CurriculumRuleSet;
+}
+
+const Header: React.FC<HeaderProps> = ({ curriculum }) => {
   return (
     <header className="bg-ntu-red text-white shadow-md border-b-4 border-yellow-600">
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
@@ -11,15 +17,15 @@ const Header: React.FC = () => {
           </div>
           <div>
             <h1 className="text-xl md:text-2xl font-serif font-bold tracking-wide">
-              畢業學分試算 (會計系111學年度)
+              畢業學分試算 ({curriculum.department}{curriculum.entryYear}學年度)
             </h1>
             <p className="text-xs md:text-sm text-gray-200 font-sans tracking-wider">
-              Department of Accounting, NTU - Graduation Credit Calculator (2022 Entry)
+              {curriculum.departmentEn}, NTU - Graduation Credit Calculator ({entryYearToAD(curriculum.entryYear)} Entry)
             </p>
           </div>
         </div>
         <div className="hidden md:block text-right text-xs text-gray-300">
-           適用: 111學年度入學生 <br/>
+           適用: {curriculum.entryYear}學年度入學生 <br/>
            User Mode: Guest
         </div>
       </div>
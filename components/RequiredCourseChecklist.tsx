@@ -0,0 +1,77 @@
+import React from 'react';
+import { Course, CurriculumRuleSet } from '../types';
+import { checkRequiredCourses, RequiredCourseStatus } from '../utils/requiredCourses';
+import { ListChecks, CheckCircle2, Clock, Circle, CalendarClock } from 'lucide-react';
+
+interface RequiredCourseChecklistProps {
+  courses: Course[];
+  curriculum: CurriculumRuleSet;
+}
+
+const STATUS_STYLES: Record<RequiredCourseStatus, { label: string; className: string }> = {
+  done: { label: '已完成', className: 'text-green-700' },
+  inProgress: { label: '修習中', className: 'text-blue-700' },
+  planned: { label: '已規劃', className: 'text-violet-700' },
+  missing: { label: '未修', className: 'text-red-700' },
+};
+
+const RequiredCourseChecklist: React.FC<RequiredCourseChecklistProps> = ({ courses, curriculum }) => {
+  const requiredCourses = curriculum.requiredCourses || [];
+  const checks = checkRequiredCourses(requiredCourses, courses);
+  const doneCount = checks.filter((c) => c.status === 'done').length;
+
+  const renderIcon = (status: RequiredCourseStatus) => {
+    switch (status) {
+      case 'done':
+        return <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />;
+      case 'inProgress':
+        return <Clock className="w-4 h-4 text-blue-600 flex-shrink-0" />;
+      case 'planned':
+        return <CalendarClock className="w-4 h-4 text-violet-600 flex-shrink-0" />;
+      default:
+        return <Circle className="w-4 h-4 text-gray-400 flex-shrink-0" />;
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-300 shadow-sm p-4 mt-6">
+      <div className="flex items-center justify-between border-b-2 border-ntu-red pb-2 mb-4">
+        <div className="flex items-center space-x-2">
+          <ListChecks className="w-5 h-5 text-ntu-red" />
+          <h2 className="text-lg font-bold text-gray-800">系訂必修檢核 Required Courses</h2>
+        </div>
+        {requiredCourses.length > 0 && (
+          <span className="text-xs text-gray-500">{doneCount} / {requiredCourses.length} 完成</span>
+        )}
+      </div>
+
+      {requiredCourses.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">
+          此規則尚未列出系訂必修科目清單。(No required-course list for this rule set.)
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+          {checks.map(({ requirement, status, earned, projected, planned }) => (
+            <div key={requirement.name} className="flex items-center justify-between text-sm py-1 border-b border-gray-100">
+              <div className="flex items-center space-x-2 overflow-hidden">
+                {renderIcon(status)}
+                <span className="truncate" title={requirement.aliases?.join('、')}>{requirement.name}</span>
+              </div>
+              <div className="flex items-center space-x-2 text-xs whitespace-nowrap">
+                <span className="font-mono text-gray-600">
+                  {earned}
+                  {projected > 0 && <span className="text-blue-600">(+{projected})</span>}
+                  {planned > 0 && <span className="text-violet-600">(+{planned})</span>}
+                  /{requirement.credits}
+                </span>
+                <span className={`font-bold ${STATUS_STYLES[status].className}`}>{STATUS_STYLES[status].label}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RequiredCourseChecklist;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Course, CreditLoadLimits } from '../types';
+import { SemesterSummary, summarizeSemesters } from '../utils/semesterStats';
+import { CalendarRange, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface SemesterViewProps {
+  courses: Course[];
+  creditLoad?: CreditLoadLimits;
+}
+
+const MAX_GPA = 4.3;
+const CHART = { width: 640, height: 220, top: 16, right: 40, bottom: 36, left: 40 };
+
+const formatGpa = (gpa: number | null) => (gpa === null ? '—' : gpa.toFixed(2));
+
+// Plain SVG: credit load as bars (right axis), semester and cumulative GPA as lines (left axis)
+const TrendChart: React.FC<{ semesters: SemesterSummary[]; creditLoad?: CreditLoadLimits }> = ({ semesters, creditLoad }) => {
+  const plotWidth = CHART.width - CHART.left - CHART.right;
+  const plotHeight = CHART.height - CHART.top - CHART.bottom;
+  const maxLoad = Math.max(...semesters.map((s) => s.load), creditLoad ? creditLoad.max + 3 : 0, 1);
+
+  const slot = plotWidth / semesters.length;
+  const xCenter = (i: number) => CHART.left + slot * i + slot / 2;
+  const yGpa = (gpa: number) => CHART.top + plotHeight * (1 - gpa / MAX_GPA);
+  const yLoad = (credits: number) => CHART.top + plotHeight * (1 - credits / maxLoad);
+  const barWidth = Math.min(slot * 0.5, 36);
+
+  const linePoints = (pick: (s: SemesterSummary) => number | null) =>
+    semesters
+      .map((s, i) => ({ x: xCenter(i), value: pick(s) }))
+      .filter((p): p is { x: number; value: number } => p.value !== null)
+      .map((p) => ({ x: p.x, y: yGpa(p.value) }));
+
+  const semesterLine = linePoints((s) => s.semesterGpa);
+  const cumulativeLine = linePoints((s) => s.cumulativeGpa);
+  const toPath = (points: { x: number; y: number }[]) => points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ');
+
+  const barColor = (s: SemesterSummary) =>
+    s.loadFlag === 'over' ? '#dc2626' :
+    s.loadFlag === 'under' ? '#f59e0b' :
+    s.status === 'planned' ? '#ddd6fe' :
+    '#d1d5db';
+
+  return (
+    <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label="學期 GPA 與學分趨勢">
+      {/* GPA grid (left axis) */}
+      {[0, 1, 2, 3, 4].map((g) => (
+        <g key={g}>
+          <line x1={CHART.left} x2={CHART.width - CHART.right} y1={yGpa(g)} y2={yGpa(g)} stroke="#f3f4f6" />
+          <text x={CHART.left - 6} y={yGpa(g) + 3} textAnchor="end" fontSize="9" fill="#6b7280">{g.toFixed(1)}</text>
+        </g>
+      ))}
+      {/* Credit axis labels (right) */}
+      {[0, Math.round(maxLoad / 2), Math.round(maxLoad)].map((c) => (
+        <text key={c} x={CHART.width - CHART.right + 6} y={yLoad(c) + 3} fontSize="9" fill="#9ca3af">{c}</text>
+      ))}
+
+      {/* Credit load bars */}
+      {semesters.map((s, i) => (
+        <g key={s.semester}>
+          <rect
+            x={xCenter(i) - barWidth / 2}
+            y={yLoad(s.load)}
+            width={barWidth}
+            height={Math.max(CHART.top + plotHeight - yLoad(s.load), 0)}
+            fill={barColor(s)}
+            strokeDasharray={s.status === 'done' ? undefined : '3 2'}
+            stroke={s.status === 'done' ? 'none' : '#6b7280'}
+          >
+            <title>{`${s.semester}：${s.load} 學分`}</title>
+          </rect>
+          <text x={xCenter(i)} y={CHART.height - CHART.bottom + 14} textAnchor="middle" fontSize="9" fill="#374151" fontFamily="monospace">
+            {s.semester}
+          </text>
+        </g>
+      ))}
+
+      {/* Department credit-load limits */}
+      {creditLoad && [creditLoad.min, creditLoad.max].map((limit) => (
+        <line
+          key={limit}
+          x1={CHART.left}
+          x2={CHART.width - CHART.right}
+          y1={yLoad(limit)}
+          y2={yLoad(limit)}
+          stroke="#9ca3af"
+          strokeDasharray="4 3"
+        />
+      ))}
+
+      {/* GPA lines */}
+      <path d={toPath(cumulativeLine)} fill="none" stroke="#2563eb" strokeWidth="2" />
+      <path d={toPath(semesterLine)} fill="none" stroke="#8b0000" strokeWidth="2" />
+      {semesterLine.map((p, i) => <circle key={`s${i}`} cx={p.x} cy={p.y} r="3" fill="#8b0000" />)}
+      {cumulativeLine.map((p, i) => <circle key={`c${i}`} cx={p.x} cy={p.y} r="2.5" fill="#2563eb" />)}
+
+      {/* Legend */}
+      <g fontSize="9" fill="#374151" transform={`translate(${CHART.left}, ${CHART.height - 8})`}>
+        <rect x="0" y="-7" width="10" height="3" fill="#8b0000" />
+        <text x="14" y="-3">學期 GPA</text>
+        <rect x="70" y="-7" width="10" height="3" fill="#2563eb" />
+        <text x="84" y="-3">累計 GPA</text>
+        <rect x="140" y="-9" width="8" height="8" fill="#d1d5db" />
+        <text x="152" y="-3">修課學分</text>
+        {creditLoad && <text x="205" y="-3" fill="#6b7280">虛線：學分上下限 {creditLoad.min}–{creditLoad.max}</text>}
+      </g>
+    </svg>
+  );
+};
+
+const SemesterView: React.FC<SemesterViewProps> = ({ courses, creditLoad }) => {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const semesters = summarizeSemesters(courses, creditLoad);
+
+  if (semesters.length === 0) {
+    return (
+      <div className="bg-white border border-gray-300 p-8 text-center text-gray-500 shadow-sm">
+        <p className="text-sm">尚無修課紀錄，無法顯示學期統計。</p>
+      </div>
+    );
+  }
+
+  const statusLabel = (s: SemesterSummary) =>
+    s.status === 'inProgress' ? <span className="ml-1 text-[10px] text-blue-700">(修習中)</span> :
+    s.status === 'planned' ? <span className="ml-1 text-[10px] text-violet-700">(規劃)</span> :
+    null;
+
+  return (
+    <div className="bg-white border border-gray-300 shadow-sm p-4">
+      <div className="flex items-center space-x-2 border-b-2 border-ntu-red pb-2 mb-4">
+        <CalendarRange className="w-5 h-5 text-ntu-red" />
+        <h2 className="text-lg font-bold text-gray-800">學期統計 By Semester</h2>
+      </div>
+
+      <TrendChart semesters={semesters} creditLoad={creditLoad} />
+
+      <div className="overflow-x-auto border-t border-b border-gray-200 mt-4">
+        <table className="w-full ntu-table border-collapse bg-white text-sm">
+          <thead>
+            <tr>
+              <th className="w-28 text-center">學年期</th>
+              <th className="text-left">課程</th>
+              <th className="w-20 text-center">修課學分</th>
+              <th className="w-20 text-center">實得學分</th>
+              <th className="w-20 text-center">學期 GPA</th>
+              <th className="w-20 text-center">累計 GPA</th>
+            </tr>
+          </thead>
+          <tbody>
+            {semesters.map((s) => {
+              const isOpen = !!expanded[s.semester];
+              return (
+                <React.Fragment key={s.semester}>
+                  <tr
+                    className={`cursor-pointer hover:bg-yellow-50 ${
+                      s.loadFlag === 'over' ? 'bg-red-50' : s.loadFlag === 'under' ? 'bg-amber-50' : ''
+                    }`}
+                    onClick={() => setExpanded({ ...expanded, [s.semester]: !isOpen })}
+                  >
+                    <td className="text-center font-mono">
+                      <span className="inline-flex items-center">
+                        {isOpen ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+                        {s.semester}
+                      </span>
+                      {statusLabel(s)}
+                    </td>
+                    <td className="text-gray-600 text-xs">{s.courses.length} 門課程</td>
+                    <td className="text-center font-mono">
+                      {s.load}
+                      {s.loadFlag === 'over' && <span className="block text-[10px] text-red-700 font-sans">超過上限 {creditLoad?.max}</span>}
+                      {s.loadFlag === 'under' && <span className="block text-[10px] text-amber-700 font-sans">低於下限 {creditLoad?.min}</span>}
+                    </td>
+                    <td className="text-center font-mono">{s.earnedCredits}</td>
+                    <td className="text-center font-mono font-bold">{formatGpa(s.semesterGpa)}</td>
+                    <td className="text-center font-mono text-blue-700">{formatGpa(s.cumulativeGpa)}</td>
+                  </tr>
+                  {isOpen && (
+                    <tr className="bg-gray-50">
+                      <td></td>
+                      <td colSpan={5} className="text-xs text-gray-700">
+                        {s.courses.map((c) => (
+                          <span key={c.id} className="inline-block mr-3 mb-1">
+                            {c.name} <span className="text-gray-400">{c.credits} 學分・{c.grade}</span>
+                          </span>
+                        ))}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SemesterView;
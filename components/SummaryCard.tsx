@@ -1,79 +1,93 @@
 import React from 'react';
-import { GraduationRequirements, Course, GRADE_POINTS } from '../types';
-import { Calculator, Award, AlertCircle, TrendingUp } from 'lucide-react';
+import { GraduationRequirements, Course, OverflowRules, GenEdDomainRequirement, SecondaryProgram, ExemptionRules, GEN_ED_DOMAIN_LABELS, CREDIT_SOURCE_LABELS } from '../types';
+import { allocateCredits, BucketAllocation, REQUIREMENT_LABELS } from '../utils/allocation';
+import { applyExemptionRules } from '../utils/exemptions';
+import { checkGenEdDomains } from '../utils/genEd';
+import { getGpaCourses, sumGradePoints, toGpa } from '../utils/gpa';
+import { forecastGraduation } from '../utils/planner';
+import { evaluatePrograms, ProgramProgress } from '../utils/programs';
+import { PROGRAM_KIND_LABELS, PROGRAM_KIND_LABELS_EN } from '../data/programs';
+import GpaComparison from './GpaComparison';
+import { CohortRank, MIN_COHORT_SIZE } from '../services/cohort';
+import { CohortStatus } from '../hooks/useCohortRank';
+import { Calculator, Award, AlertCircle, TrendingUp, CalendarClock, GraduationCap } from 'lucide-react';
 
 interface SummaryCardProps {
   courses: Course[];
   requirements: GraduationRequirements;
+  overflowRules?: OverflowRules;
+  genEdDomains?: GenEdDomainRequirement;
+  programs?: SecondaryProgram[];
+  exemptionRules?: ExemptionRules;
+  cohortRank?: CohortRank | null;
+  cohortStatus?: CohortStatus;
 }
 
-const SummaryCard: React.FC<SummaryCardProps> = ({ courses, requirements }) => {
-  // Initialize accumulator structure
-  const initialAcc = {
-    total: { earned: 0, projected: 0 },
-    commonRequired: { earned: 0, projected: 0 },
-    deptRequired: { earned: 0, projected: 0 },
-    designatedElective: { earned: 0, projected: 0 },
-    generalElective: { earned: 0, projected: 0 },
-    generalEducation: { earned: 0, projected: 0 }
+const SummaryCard: React.FC<SummaryCardProps> = ({ courses, requirements, overflowRules, genEdDomains, programs = [], exemptionRules, cohortRank, cohortStatus = 'disabled' }) => {
+  // 抵免 / transfer credits over the cap or in a disallowed bucket count nothing
+  const exemptions = applyExemptionRules(courses, exemptionRules);
+  // Double major / minor credits beyond their shared-credit limits do not count toward the primary
+  const { primaryCourses, programs: programProgress } = evaluatePrograms(exemptions.courses, programs);
+
+  // Calculate Totals (Separating Completed vs In-Progress), capping buckets and spilling overflow
+  const { total, buckets } = allocateCredits(primaryCourses, requirements, overflowRules);
+  const totals = { total, ...buckets };
+  const hasUpcoming = courses.some((c) => c.isCurrent || c.isPlanned);
+  const forecast = forecastGraduation(primaryCourses, requirements, overflowRules);
+
+  // Calculate GPA (failed attempts stay in, superseded repeats and planned courses are left out)
+  const gpaCourses = getGpaCourses(courses).filter((c) => !c.isPlanned);
+  const currentGPA = toGpa(sumGradePoints(gpaCourses.filter((c) => !c.isCurrent))).toFixed(2);
+  const projectedGPA = toGpa(sumGradePoints(gpaCourses)).toFixed(2);
+
+  const renderGenEdDomains = (requirement: GenEdDomainRequirement) => {
+    const check = checkGenEdDomains(courses, requirement);
+
+    return (
+      <div className="mb-3 -mt-1 pl-2 border-l-2 border-orange-200">
+        <div className="flex justify-between mb-1 text-xs">
+            <span className="font-bold text-gray-600">通識領域 (Domains)</span>
+            <span className={check.isMet ? 'text-green-700 font-bold' : 'text-gray-700'}>
+                {check.coveredCount}
+                {check.coveredCountProjected > check.coveredCount && (
+                    <span className="text-blue-600 ml-1">(+{check.coveredCountProjected - check.coveredCount})</span>
+                )}
+                <span className="text-gray-500"> / {requirement.minDomains} 領域</span>
+            </span>
+        </div>
+        <div className="grid grid-cols-4 gap-1">
+            {check.domains.map((d) => (
+                <div
+                    key={d.domain}
+                    title={`${d.domain} ${GEN_ED_DOMAIN_LABELS[d.domain]}`}
+                    className={`text-[10px] text-center px-1 py-0.5 border rounded-sm ${
+                        d.isCovered ? 'bg-orange-100 border-orange-300 text-orange-800 font-bold' :
+                        d.isCoveredProjected ? 'bg-blue-50 border-blue-200 text-blue-700' :
+                        'bg-white border-gray-200 text-gray-400'
+                    }`}
+                >
+                    {d.domain} {d.earned + d.projected > 0 && `· ${d.earned}${d.projected > 0 ? `+${d.projected}` : ''}`}
+                </div>
+            ))}
+        </div>
+        {check.untagged > 0 && (
+            <p className="text-[10px] text-gray-500 mt-1">* 尚有 {check.untagged} 門通識未設定領域</p>
+        )}
+      </div>
+    );
   };
 
-  // Calculate Totals (Separating Completed vs In-Progress)
-  const totals = courses.reduce((acc, course) => {
-    // PE (體育) does not count toward graduation credits
-    if (course.category === '體育') return acc;
-    
-    const targetKey = 
-        course.category === '共同必修' ? 'commonRequired' :
-        course.category === '系訂必修' ? 'deptRequired' :
-        course.category === '指定選修' ? 'designatedElective' :
-        course.category === '一般選修' ? 'generalElective' :
-        course.category === '通識' ? 'generalEducation' :
-        'generalElective'; // Default to General Elective for '其他' or unknown
-
-    // Add to specific category
-    if (course.isCurrent) {
-        acc[targetKey].projected += course.credits;
-        acc.total.projected += course.credits;
-    } else {
-        acc[targetKey].earned += course.credits;
-        acc.total.earned += course.credits;
-    }
-    
-    return acc;
-  }, JSON.parse(JSON.stringify(initialAcc)));
-
-  // Calculate GPA
-  let earnedPoints = 0;
-  let earnedCredits = 0;
-  
-  let projectedPoints = 0;
-  let projectedCredits = 0;
-
-  courses.forEach(course => {
-    const points = GRADE_POINTS[course.grade];
-    // Exclude Pass/Fail or invalid grades from GPA calculation
-    // Points must be >= 0, and not PE (usually)
-    if (points >= 0 && course.credits > 0 && course.category !== '體育') {
-      if (course.isCurrent) {
-          projectedPoints += points * course.credits;
-          projectedCredits += course.credits;
-      } else {
-          earnedPoints += points * course.credits;
-          earnedCredits += course.credits;
-      }
-    }
-  });
-
-  const currentGPA = earnedCredits > 0 ? (earnedPoints / earnedCredits).toFixed(2) : "0.00";
-  const totalProjectedPoints = earnedPoints + projectedPoints;
-  const totalProjectedCredits = earnedCredits + projectedCredits;
-  const projectedGPA = totalProjectedCredits > 0 ? (totalProjectedPoints / totalProjectedCredits).toFixed(2) : "0.00";
-
-  const renderProgressBar = (label: string, earned: number, projected: number, max: number, colorBase: string, colorLight: string) => {
+  const renderProgressBar = (label: string, bucket: BucketAllocation, max: number, colorBase: string, colorLight: string) => {
+    const { earned, projected, planned, spilledIn, spilledOut, spillTarget } = bucket;
+    const spilledInTotal = spilledIn.earned + spilledIn.projected + spilledIn.planned;
+    const spilledOutTotal = spilledOut.earned + spilledOut.projected + spilledOut.planned;
+
+    const ownEarnedPct = Math.min(((earned - spilledIn.earned) / max) * 100, 100);
     const earnedPct = Math.min((earned / max) * 100, 100);
+    const spilledInPct = earnedPct - ownEarnedPct; // Width of the earned credits moved in from other buckets
     const projectedPct = Math.min(((earned + projected) / max) * 100, 100);
     const extraPct = projectedPct - earnedPct; // The width of the projected segment
+    const plannedPct = Math.min(((earned + projected + planned) / max) * 100, 100) - projectedPct;
     
     const isMet = earned >= max;
     const isMetProjected = (earned + projected) >= max;
@@ -91,16 +105,38 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ courses, requirements }) => {
                         (+{projected})
                      </span>
                 )}
+                {planned > 0 && (
+                     <span className="text-violet-600 font-medium text-xs ml-1">
+                        (+{planned} 規劃)
+                     </span>
+                )}
                 <span className="text-gray-500"> / {max}</span>
             </div>
         </div>
+        {(spilledInTotal > 0 || spilledOutTotal > 0) && (
+            <div className="flex justify-end space-x-2 mb-1 text-[10px]">
+                {spilledInTotal > 0 && (
+                    <span className="text-amber-700">含轉入 {spilledInTotal} 學分 (Overflow in)</span>
+                )}
+                {spilledOutTotal > 0 && spillTarget && (
+                    <span className="text-gray-500">超出 {spilledOutTotal} 學分 → {REQUIREMENT_LABELS[spillTarget]}</span>
+                )}
+            </div>
+        )}
         <div className="w-full bg-gray-200 h-5 border border-gray-300 rounded-sm relative flex">
             {/* Earned Segment */}
             <div
                 className={`h-full ${colorBase} flex items-center justify-center text-[10px] text-white whitespace-nowrap overflow-hidden transition-all duration-500`}
-                style={{ width: `${earnedPct}%` }}
+                style={{ width: `${ownEarnedPct}%` }}
+            >
+                {ownEarnedPct >= 10 && `${Math.round(earnedPct)}%`}
+            </div>
+            {/* Spilled-in Segment (credits moved here from a capped bucket) */}
+            <div
+                className="h-full bg-amber-500 transition-all duration-500"
+                style={{ width: `${spilledInPct}%` }}
+                title={`轉入 ${spilledIn.earned} 學分`}
             >
-                {earnedPct >= 10 && `${Math.round(earnedPct)}%`}
             </div>
             {/* Projected Segment */}
             <div
@@ -108,11 +144,62 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ courses, requirements }) => {
                 style={{ width: `${extraPct}%`, backgroundImage: 'linear-gradient(45deg,rgba(255,255,255,.15) 25%,transparent 25%,transparent 50%,rgba(255,255,255,.15) 50%,rgba(255,255,255,.15) 75%,transparent 75%,transparent)', backgroundSize: '1rem 1rem' }}
             >
             </div>
+            {/* Planned Segment (future semesters) */}
+            <div
+                className="h-full bg-violet-200 border-l border-dashed border-violet-500 transition-all duration-500"
+                style={{ width: `${plannedPct}%` }}
+                title={`規劃 ${planned} 學分`}
+            >
+            </div>
         </div>
       </div>
     );
   };
 
+  const renderProgram = ({ program, credits, shared, exclusive, uncounted, requiredCourses, isMet }: ProgramProgress) => {
+    const pct = (value: number) => Math.min((value / program.requiredCredits) * 100, 100);
+    const missing = requiredCourses.filter((r) => r.status !== 'done');
+
+    return (
+      <div key={program.id} className="mb-3">
+        <div className="flex justify-between mb-1 text-sm">
+            <span className="font-bold text-gray-700">
+                {PROGRAM_KIND_LABELS[program.kind]}：{program.department}
+                <span className="font-normal text-gray-500 text-xs"> ({PROGRAM_KIND_LABELS_EN[program.kind]})</span>
+            </span>
+            <div className="text-right">
+                <span className={isMet ? 'text-green-700 font-bold' : 'text-gray-800'}>{credits.earned}</span>
+                {credits.projected > 0 && <span className="text-blue-600 font-medium text-xs ml-1">(+{credits.projected})</span>}
+                {credits.planned > 0 && <span className="text-violet-600 font-medium text-xs ml-1">(+{credits.planned} 規劃)</span>}
+                <span className="text-gray-500"> / {program.requiredCredits}</span>
+            </div>
+        </div>
+        <div className="w-full bg-gray-200 h-4 border border-gray-300 rounded-sm flex">
+            <div className="h-full bg-emerald-700" style={{ width: `${pct(credits.earned)}%` }}></div>
+            <div className="h-full bg-emerald-400" style={{ width: `${pct(credits.earned + credits.projected) - pct(credits.earned)}%` }}></div>
+            <div
+                className="h-full bg-violet-200 border-l border-dashed border-violet-500"
+                style={{ width: `${pct(credits.earned + credits.projected + credits.planned) - pct(credits.earned + credits.projected)}%` }}
+            ></div>
+        </div>
+        <div className="flex justify-between mt-1 text-[10px] text-gray-500">
+            <span>與主修共用 {shared} / {program.maxSharedCredits} 學分 (Shared)</span>
+            {exclusive > 0 && <span>另計 {exclusive} 學分，不計入主修</span>}
+        </div>
+        {uncounted > 0 && (
+            <p className="text-[10px] text-gray-500">
+                主修必要課程超過共用上限 {uncounted} 學分，僅計入主修 (Over the shared limit: primary only)
+            </p>
+        )}
+        {missing.length > 0 && (
+            <p className="text-[10px] text-gray-600 mt-0.5">
+                未完成：{missing.map((r) => r.requirement.name).join('、')}
+            </p>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white border border-gray-300 shadow-sm p-4">
       <div className="flex items-center space-x-2 border-b-2 border-ntu-red pb-2 mb-4">
@@ -129,6 +216,15 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ courses, requirements }) => {
                     <span className="text-xs font-bold text-gray-600">目前 (Current)</span>
                 </div>
                 <span className="text-2xl font-bold text-gray-800 font-serif">{currentGPA}</span>
+                {cohortStatus !== 'disabled' && (
+                    <span className="text-[10px] text-gray-600 mt-1" title="同系同屆 GPA 摘要估計 (Estimated from cohort GPA summaries)">
+                        {cohortStatus === 'loading' && '排名計算中...'}
+                        {cohortStatus === 'error' && '無法取得同儕資料'}
+                        {cohortStatus === 'ready' && (cohortRank
+                            ? <>同屆 PR <span className="font-bold">{cohortRank.percentile}</span> ({cohortRank.sampleSize} 人)</>
+                            : `同屆資料不足 ${MIN_COHORT_SIZE} 筆`)}
+                    </span>
+                )}
             </div>
             <div className="bg-blue-50 border border-blue-200 p-3 flex flex-col items-center justify-center relative overflow-hidden">
                 <div className="flex items-center space-x-1 mb-1 relative z-10">
@@ -140,6 +236,9 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ courses, requirements }) => {
             </div>
         </div>
 
+        {/* Other GPA definitions (major, recent credits) and scale conversions */}
+        <GpaComparison courses={courses} />
+
         {/* Total Progress */}
         <div className="pb-2 border-b border-gray-200">
              <div className="flex justify-between mb-1 items-baseline">
@@ -149,6 +248,9 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ courses, requirements }) => {
                     {totals.total.projected > 0 && (
                         <span className="text-blue-600 text-sm font-bold ml-1">+{totals.total.projected}</span>
                     )}
+                    {totals.total.planned > 0 && (
+                        <span className="text-violet-600 text-sm font-bold ml-1">+{totals.total.planned}</span>
+                    )}
                     <span className="text-gray-400 text-sm ml-1">/ {requirements.total}</span>
                 </div>
             </div>
@@ -161,23 +263,74 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ courses, requirements }) => {
                     className="h-full bg-blue-400 opacity-70" 
                     style={{ width: `${Math.min((totals.total.projected / requirements.total) * 100, 100)}%` }}
                 ></div>
+                <div 
+                    className="h-full bg-violet-300" 
+                    style={{ width: `${Math.min((totals.total.planned / requirements.total) * 100, 100)}%` }}
+                ></div>
             </div>
         </div>
 
+        {/* Graduation forecast from in-progress and planned semesters */}
+        {(forecast.metNow || hasUpcoming) && (
+            <div className={`p-2 border text-xs flex items-center ${
+                forecast.metNow || forecast.semester ? 'bg-violet-50 border-violet-200 text-violet-800' : 'bg-gray-50 border-gray-200 text-gray-600'
+            }`}>
+                <CalendarClock className="w-4 h-4 mr-2 flex-shrink-0" />
+                {forecast.metNow
+                    ? '已修畢學分已達所有畢業門檻。(All requirements met)'
+                    : forecast.semester
+                        ? <span>依目前規劃，最早於 <span className="font-bold font-mono">{forecast.semester}</span> 學期結束時達成所有畢業門檻。</span>
+                        : '依目前規劃仍無法達成所有畢業門檻，請再加入規劃課程。'}
+            </div>
+        )}
+
         {/* Specific Categories */}
         <div className="space-y-1">
-            {renderProgressBar('共同必修 (Common Required)', totals.commonRequired.earned, totals.commonRequired.projected, requirements.commonRequired, 'bg-teal-700', 'bg-teal-400')}
-            {renderProgressBar('系訂必修 (Dept Required)', totals.deptRequired.earned, totals.deptRequired.projected, requirements.deptRequired, 'bg-ntu-red', 'bg-red-400')}
-            {renderProgressBar('指定選修 (Designated Elective)', totals.designatedElective.earned, totals.designatedElective.projected, requirements.designatedElective, 'bg-purple-700', 'bg-purple-400')}
-            {renderProgressBar('一般選修 (General Elective)', totals.generalElective.earned, totals.generalElective.projected, requirements.generalElective, 'bg-indigo-700', 'bg-indigo-400')}
-            {renderProgressBar('通識 (General Education)', totals.generalEducation.earned, totals.generalEducation.projected, requirements.generalEducation, 'bg-orange-600', 'bg-orange-300')}
+            {renderProgressBar('共同必修 (Common Required)', totals.commonRequired, requirements.commonRequired, 'bg-teal-700', 'bg-teal-400')}
+            {renderProgressBar('系訂必修 (Dept Required)', totals.deptRequired, requirements.deptRequired, 'bg-ntu-red', 'bg-red-400')}
+            {renderProgressBar('指定選修 (Designated Elective)', totals.designatedElective, requirements.designatedElective, 'bg-purple-700', 'bg-purple-400')}
+            {renderProgressBar('一般選修 (General Elective)', totals.generalElective, requirements.generalElective, 'bg-indigo-700', 'bg-indigo-400')}
+            {renderProgressBar('通識 (General Education)', totals.generalEducation, requirements.generalEducation, 'bg-orange-600', 'bg-orange-300')}
+            {genEdDomains && renderGenEdDomains(genEdDomains)}
         </div>
 
+        {/* Exemption and transfer credits against the rule set's cap */}
+        {exemptions.claimed > 0 && (
+            <div className="p-2 border border-sky-200 bg-sky-50 text-xs text-sky-900">
+                <div className="flex justify-between">
+                    <span className="font-bold">抵免 / 轉學分 (Exempted & Transfer)</span>
+                    <span className="font-mono">
+                        {exemptions.counted}
+                        {exemptions.maxCredits !== null && <span className="text-gray-500"> / {exemptions.maxCredits} 上限</span>}
+                    </span>
+                </div>
+                {exemptions.excluded.map(({ course, credits, reason }) => (
+                    <div key={course.id} className="text-amber-700 mt-0.5">
+                        {course.name} ({CREDIT_SOURCE_LABELS[course.source!]}) {credits} 學分不採計：
+                        {reason === 'cap' ? '超過抵免上限 (Over cap)' : '此類別不可抵免 (Not allowed in this category)'}
+                    </div>
+                ))}
+            </div>
+        )}
+
+        {/* One section per double major / minor */}
+        {programProgress.length > 0 && (
+            <div className="pt-3 border-t border-gray-200">
+                <div className="flex items-center space-x-1 mb-2">
+                    <GraduationCap className="w-4 h-4 text-emerald-700" />
+                    <span className="font-bold text-gray-800">雙主修 / 輔系 (Secondary Programs)</span>
+                </div>
+                {programProgress.map(renderProgram)}
+            </div>
+        )}
+
         <div className="mt-2 p-2 bg-gray-50 border border-gray-200 text-xs text-gray-500 flex items-start gap-1">
             <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
             <p>
-                深色為已修得學分，<span className="text-blue-600 font-bold">淺色/藍字</span>為本學期修習中(預估)。
-                預估 GPA 包含本學期課程之預期成績。
+                深色為已修得學分，<span className="text-blue-600 font-bold">淺色/藍字</span>為本學期修習中(預估)，
+                <span className="text-violet-600 font-bold">紫色</span>為未來學期規劃之學分，
+                <span className="text-amber-700 font-bold">琥珀色</span>為其他類別超出後轉入之學分。
+                預估 GPA 包含本學期課程之預期成績，不含規劃課程。
             </p>
         </div>
       </div>
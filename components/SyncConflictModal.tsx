@@ -0,0 +1,170 @@
+import React, { useState, useMemo } from 'react';
+import { Course } from '../types';
+import { CourseDiff, MergeChoice, diffCourseLists, mergeCourseLists } from '../utils/courseDiff';
+import { CourseDocument } from '../services/storage';
+import { GitMerge, AlertCircle, HardDrive, Cloud } from 'lucide-react';
+
+interface SyncConflictModalProps {
+  local: CourseDocument;
+  remote: CourseDocument;
+  onResolve: (courses: Course[]) => void;
+}
+
+const KIND_LABELS: Record<CourseDiff['kind'], { label: string; className: string }> = {
+  same: { label: '相同', className: 'bg-gray-100 text-gray-600' },
+  changed: { label: '兩邊不同', className: 'bg-yellow-100 text-yellow-800' },
+  localOnly: { label: '僅本機', className: 'bg-blue-100 text-blue-800' },
+  remoteOnly: { label: '僅雲端', className: 'bg-purple-100 text-purple-800' },
+};
+
+const FIELD_LABELS: Partial<Record<keyof Course, string>> = {
+  semester: '學年期',
+  name: '名稱',
+  credits: '學分',
+  category: '類別',
+  grade: '成績',
+  isCurrent: '修習中',
+  isPlanned: '規劃中',
+  genEdDomain: '通識領域',
+  source: '來源',
+  sourceInstitution: '來源學校',
+  approvalRef: '核准文號',
+};
+
+const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ local, remote, onResolve }) => {
+  const allDiffs = useMemo(() => diffCourseLists(local.courses, remote.courses), [local, remote]);
+  const diffs = allDiffs.filter((d) => d.kind !== 'same');
+  const unchanged = allDiffs.filter((d) => d.kind === 'same');
+
+  // Default: keep additions from both sides, prefer the local edit when both changed
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() => {
+    const initial: Record<string, MergeChoice> = {};
+    diffs.forEach((d) => { initial[d.id] = d.kind === 'remoteOnly' ? 'remote' : 'local'; });
+    return initial;
+  });
+
+  const setAll = (choice: MergeChoice) => {
+    const next: Record<string, MergeChoice> = {};
+    diffs.forEach((d) => { next[d.id] = choice; });
+    setChoices(next);
+  };
+
+  const handleResolve = () => {
+    onResolve(mergeCourseLists([...unchanged, ...diffs], choices));
+  };
+
+  const describe = (course: Course | undefined, fields: (keyof Course)[]) => {
+    if (!course) return <span className="text-gray-400 italic">（不存在）</span>;
+    return (
+      <div className="text-xs space-y-0.5">
+        <div className={fields.includes('name') ? 'font-bold text-yellow-800' : 'font-bold text-gray-800'}>{course.name}</div>
+        <div className="text-gray-600 space-x-2">
+          {(['semester', 'credits', 'grade', 'category'] as (keyof Course)[]).map((field) => (
+            <span key={field} className={fields.includes(field) ? 'bg-yellow-100 text-yellow-900 px-0.5' : ''}>
+              {FIELD_LABELS[field]}:{String(course[field])}
+            </span>
+          ))}
+          {course.isCurrent && <span className={fields.includes('isCurrent') ? 'bg-yellow-100 px-0.5' : ''}>修習中</span>}
+          {course.isPlanned && <span className={fields.includes('isPlanned') ? 'bg-yellow-100 px-0.5' : ''}>規劃中</span>}
+          {course.genEdDomain && <span className={fields.includes('genEdDomain') ? 'bg-yellow-100 px-0.5' : ''}>{course.genEdDomain}</span>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-5xl rounded-lg shadow-xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-ntu-red text-white rounded-t-lg">
+          <div className="flex items-center space-x-2">
+            <GitMerge className="w-5 h-5" />
+            <h3 className="font-bold text-lg">同步衝突 (Sync Conflict)</h3>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-grow overflow-auto p-6 space-y-4">
+          <div className="bg-yellow-50 border border-yellow-200 p-3 rounded text-sm text-yellow-800 flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div>
+              <p>雲端資料已被其他分頁或裝置更新 (revision {remote.revision}{remote.updatedAt ? `, ${new Date(remote.updatedAt).toLocaleString()}` : ''})。</p>
+              <p>請逐筆選擇要保留的版本，確認後才會覆寫雲端。相同的 {unchanged.length} 門課程將直接保留。</p>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2 text-xs">
+            <button onClick={() => setAll('local')} className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 flex items-center">
+              <HardDrive className="w-3 h-3 mr-1" /> 全部使用本機
+            </button>
+            <button onClick={() => setAll('remote')} className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 flex items-center">
+              <Cloud className="w-3 h-3 mr-1" /> 全部使用雲端
+            </button>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-100 text-gray-700 font-bold">
+                <tr>
+                  <th className="p-2 border-b w-24">差異</th>
+                  <th className="p-2 border-b">本機 (Local)</th>
+                  <th className="p-2 border-b">雲端 (Remote)</th>
+                  <th className="p-2 border-b w-40 text-center">保留</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diffs.map((d) => (
+                  <tr key={d.id} className="border-b last:border-0 align-top">
+                    <td className="p-2">
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${KIND_LABELS[d.kind].className}`}>
+                        {KIND_LABELS[d.kind].label}
+                      </span>
+                    </td>
+                    <td className={`p-2 ${choices[d.id] === 'local' ? 'bg-green-50' : ''}`}>{describe(d.local, d.fields)}</td>
+                    <td className={`p-2 ${choices[d.id] === 'remote' ? 'bg-green-50' : ''}`}>{describe(d.remote, d.fields)}</td>
+                    <td className="p-2 text-center text-xs">
+                      <label className="mr-3 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`merge-${d.id}`}
+                          checked={choices[d.id] === 'local'}
+                          onChange={() => setChoices({ ...choices, [d.id]: 'local' })}
+                          className="mr-1"
+                        />
+                        本機
+                      </label>
+                      <label className="cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`merge-${d.id}`}
+                          checked={choices[d.id] === 'remote'}
+                          onChange={() => setChoices({ ...choices, [d.id]: 'remote' })}
+                          className="mr-1"
+                        />
+                        雲端
+                      </label>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Footer Actions */}
+        <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-end space-x-3 rounded-b-lg">
+          <button
+            onClick={handleResolve}
+            className="flex items-center px-4 py-2 rounded font-bold text-white bg-green-600 hover:bg-green-700 transition-colors"
+          >
+            <GitMerge className="w-4 h-4 mr-2" />
+            確認合併 (Merge)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictModal;
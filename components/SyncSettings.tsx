@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { StorageSettings, generateBasketId, isSharedPantry } from '../services/storage';
+import { COHORT_RANKING_AVAILABLE } from '../services/cohort';
+import { Cloud, RefreshCw, AlertTriangle } from 'lucide-react';
+
+interface SyncSettingsProps {
+  settings: StorageSettings;
+  onApply: (settings: StorageSettings) => void;
+}
+
+const SyncSettings: React.FC<SyncSettingsProps> = ({ settings, onApply }) => {
+  const [draft, setDraft] = useState<StorageSettings>(settings);
+
+  // Reset the draft whenever the applied settings change
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const isDirty =
+    draft.remoteEnabled !== settings.remoteEnabled ||
+    draft.pantryId !== settings.pantryId ||
+    draft.basketId !== settings.basketId ||
+    draft.cohortOptIn !== settings.cohortOptIn;
+
+  // Remote sync needs the user's own pantry: every basket in the old shared one is readable by anyone
+  const pantryProblem = !draft.remoteEnabled ? null
+    : !draft.pantryId.trim() ? '請輸入您自己的 Pantry ID (Enter your own Pantry ID)'
+    : isSharedPantry(draft.pantryId) ? '此為公用 Pantry，任何人都能列出並讀取其中所有資料，請改用您自己的 Pantry ID。(Shared pantry: readable by anyone)'
+    : null;
+
+  const handleApply = () => {
+    if (pantryProblem || (draft.remoteEnabled && !draft.basketId.trim())) return;
+    onApply({ ...draft, pantryId: draft.pantryId.trim(), basketId: draft.basketId.trim() });
+  };
+
+  return (
+    <div className="bg-white border border-gray-300 shadow-sm p-4 text-xs">
+      <div className="flex items-center space-x-2 border-b-2 border-ntu-red pb-2 mb-3">
+        <Cloud className="w-5 h-5 text-ntu-red" />
+        <h2 className="text-lg font-bold text-gray-800">雲端同步 Sync</h2>
+      </div>
+
+      <label className="flex items-center space-x-2 mb-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={draft.remoteEnabled}
+          onChange={(e) => setDraft({ ...draft, remoteEnabled: e.target.checked })}
+        />
+        <span className="font-bold text-gray-700">啟用 Pantry 雲端同步 (Enable remote sync)</span>
+      </label>
+
+      <div className={`space-y-2 ${draft.remoteEnabled ? '' : 'opacity-50 pointer-events-none'}`}>
+        <div>
+          <label className="block font-bold text-gray-700 mb-1">Pantry ID</label>
+          <input
+            type="text"
+            value={draft.pantryId}
+            onChange={(e) => setDraft({ ...draft, pantryId: e.target.value })}
+            placeholder="至 getpantry.cloud 免費建立"
+            className="w-full border border-gray-300 p-2 font-mono focus:border-ntu-red focus:ring-1 focus:ring-ntu-red outline-none"
+          />
+          {pantryProblem && (
+            <p className="text-[10px] text-red-700 mt-1 flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              {pantryProblem}
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="block font-bold text-gray-700 mb-1">個人資料 ID (Basket ID)</label>
+          <div className="flex space-x-1">
+            <input
+              type="text"
+              value={draft.basketId}
+              onChange={(e) => setDraft({ ...draft, basketId: e.target.value })}
+              className="flex-grow border border-gray-300 p-2 font-mono focus:border-ntu-red focus:ring-1 focus:ring-ntu-red outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, basketId: generateBasketId() })}
+              className="px-2 border border-gray-300 text-gray-600 hover:text-ntu-red hover:border-ntu-red"
+              title="產生新 ID (Generate)"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-[10px] text-gray-500 mt-1">
+            *在其他裝置輸入相同 Pantry ID 與 Basket ID 即可同步資料。知道 Pantry ID 的人可讀取其中所有 Basket，請勿分享 Pantry ID。
+          </p>
+        </div>
+      </div>
+
+      <label className={`flex items-start space-x-2 mt-3 pt-3 border-t border-gray-200 ${COHORT_RANKING_AVAILABLE ? 'cursor-pointer' : 'cursor-not-allowed'}`}>
+        <input
+          type="checkbox"
+          checked={COHORT_RANKING_AVAILABLE && draft.cohortOptIn}
+          disabled={!COHORT_RANKING_AVAILABLE}
+          onChange={(e) => setDraft({ ...draft, cohortOptIn: e.target.checked })}
+          className="mt-0.5"
+        />
+        <span>
+          <span className={`font-bold block ${COHORT_RANKING_AVAILABLE ? 'text-gray-700' : 'text-gray-400'}`}>分享 GPA 摘要以估計同屆排名 (Cohort rank)</span>
+          {COHORT_RANKING_AVAILABLE ? (
+            <span className="text-[10px] text-gray-500">
+              只上傳入學年度、系所、四捨五入的 GPA 與約略學分數，不含課程名稱或 ID。取消勾選即刪除已上傳的資料。
+              {!draft.remoteEnabled && ' 未啟用雲端同步時資料只存於本機，無法與他人比較。'}
+            </span>
+          ) : (
+            <span className="text-[10px] text-gray-500">
+              暫停提供：與同學比較需要共用同一個 Pantry ID，而知道 Pantry ID 的人能讀取其中所有 Basket，包括你的課程清單。
+              (Unavailable: comparing with classmates means sharing a Pantry ID, which lets them read your course list.)
+            </span>
+          )}
+        </span>
+      </label>
+
+      <button
+        onClick={handleApply}
+        disabled={!isDirty || !!pantryProblem}
+        className={`w-full mt-3 font-bold py-2 px-4 text-sm border transition-colors ${
+          isDirty && !pantryProblem ? 'bg-ntu-red text-white hover:bg-red-900 border-red-900' : 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
+        }`}
+      >
+        套用設定 (Apply)
+      </button>
+    </div>
+  );
+};
+
+export default SyncSettings;
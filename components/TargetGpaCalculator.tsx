@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Course } from '../types';
+import { planTargetGpa } from '../utils/gpa';
+import { Target } from 'lucide-react';
+
+interface TargetGpaCalculatorProps {
+  courses: Course[];
+}
+
+const TargetGpaCalculator: React.FC<TargetGpaCalculatorProps> = ({ courses }) => {
+  const [target, setTarget] = useState('3.80');
+
+  const targetValue = Number(target);
+  const isValid = target.trim() !== '' && !isNaN(targetValue) && targetValue > 0 && targetValue <= 4.3;
+  const plan = isValid ? planTargetGpa(courses, targetValue) : null;
+  const inProgress = courses.filter((c) => plan?.combinations[0]?.grades[c.id]);
+
+  return (
+    <div className="bg-white border border-gray-300 shadow-sm p-4 mt-6">
+      <div className="flex items-center justify-between border-b-2 border-ntu-red pb-2 mb-4">
+        <div className="flex items-center space-x-2">
+          <Target className="w-5 h-5 text-ntu-red" />
+          <h2 className="text-lg font-bold text-gray-800">目標 GPA 試算 Target GPA</h2>
+        </div>
+        <div className="flex items-center space-x-1 text-sm">
+          <label htmlFor="target-gpa" className="text-gray-600">目標</label>
+          <input
+            id="target-gpa"
+            type="number"
+            step="0.01"
+            min="0"
+            max="4.3"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="w-20 border border-gray-300 p-1 text-sm text-center font-mono focus:border-ntu-red outline-none"
+          />
+        </div>
+      </div>
+
+      {!plan && <p className="text-sm text-red-600">請輸入 0–4.3 之間的目標 GPA。</p>}
+
+      {plan && (
+        <div className="space-y-3 text-sm">
+          <p className="text-xs text-gray-500">
+            已修 {plan.earnedCredits} 學分，目前 GPA {plan.currentGpa.toFixed(2)}；
+            修習中與規劃課程共 {plan.remainingCredits} 學分計入試算 (4.3 制，Pass 課程不計)。
+          </p>
+
+          {plan.status === 'reached' && (
+            <div className="p-3 bg-green-50 border border-green-200 text-green-800 rounded">
+              {plan.remainingCredits > 0
+                ? '即使剩餘課程皆以最低及格成績通過，仍可達到目標。'
+                : '目前 GPA 已達到目標。'}
+            </div>
+          )}
+
+          {plan.status === 'noRemaining' && (
+            <div className="p-3 bg-gray-50 border border-gray-200 text-gray-700 rounded">
+              尚未達到目標，且沒有修習中或規劃中的課程可以提升 GPA。請先新增本學期或未來規劃的課程。
+            </div>
+          )}
+
+          {plan.status === 'impossible' && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-800 rounded">
+              剩餘課程平均需 <span className="font-bold font-mono">{plan.requiredAverage.toFixed(2)}</span>，
+              超過 A+ (4.3)，以目前剩餘學分無法達到目標。
+            </div>
+          )}
+
+          {plan.status === 'feasible' && (
+            <>
+              <div className="p-3 bg-blue-50 border border-blue-200 text-blue-900 rounded">
+                剩餘課程平均需達 <span className="font-bold font-mono">{plan.requiredAverage.toFixed(2)}</span>，
+                相當於每門至少 <span className="font-bold">{plan.requiredGrade}</span>。
+              </div>
+
+              {plan.combinations.length > 0 && (
+                <div className="overflow-x-auto">
+                  <p className="text-xs font-bold text-gray-700 mb-1">本學期成績組合範例 (規劃課程以所需平均計)</p>
+                  <table className="w-full text-xs border border-gray-200">
+                    <thead className="bg-gray-100 text-gray-700">
+                      <tr>
+                        <th className="p-1 text-left">課程</th>
+                        {plan.combinations.map((combo) => (
+                          <th key={combo.label} className="p-1 text-center">{combo.label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {inProgress.map((course) => (
+                        <tr key={course.id} className="border-t border-gray-100">
+                          <td className="p-1">{course.name} <span className="text-gray-400">({course.credits})</span></td>
+                          {plan.combinations.map((combo) => (
+                            <td key={combo.label} className="p-1 text-center font-bold font-mono">{combo.grades[course.id]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                      <tr className="border-t border-gray-300 bg-gray-50">
+                        <td className="p-1 font-bold">總 GPA</td>
+                        {plan.combinations.map((combo) => (
+                          <td key={combo.label} className="p-1 text-center font-mono">{combo.gpa.toFixed(2)}</td>
+                        ))}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TargetGpaCalculator;
@@ -1,12 +1,31 @@
 import React, { useState, useRef } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
-import { Course, CourseCategory, Grade } from '../types';
+import { Course, CourseCategory, CreditSource, CurriculumRuleSet, GenEdDomain, Grade, GEN_ED_DOMAIN_LABELS, CREDIT_SOURCE_LABELS } from '../types';
+import { GEN_ED_DOMAINS } from '../utils/genEd';
+import { TranscriptParseResult } from '../utils/transcriptParser';
+import { CategorySuggestion, createCategoryClassifier } from '../utils/categoryClassifier';
+import { CatalogMatch } from '../utils/catalogSearch';
+import { applyImportedRow, reconcileImport, ReconcileKind } from '../utils/importReconcile';
+import {
+  createExtractionProvider,
+  ExtractedRow,
+  ExtractionInput,
+  ExtractionProvider,
+  ExtractionSettings,
+  loadExtractionSettings,
+  extractTranscript,
+  saveExtractionSettings,
+} from '../services/extraction';
+import ExtractionSettingsPanel from './ExtractionSettingsPanel';
+import CourseNameInput from './CourseNameInput';
 import { X, Sparkles, ArrowRight, Loader2, Check, AlertCircle, Upload, FileText, Trash2, Clock } from 'lucide-react';
 
 interface TranscriptImportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (courses: Course[]) => void;
+  onImport: (changes: Course[]) => void; // New courses plus updated existing ones (same id)
+  curriculum: CurriculumRuleSet;
+  existingCourses: Course[];
+  provider?: ExtractionProvider; // Overrides the configured AI provider, e.g. a mock in tests
 }
 
 // Temporary type for the review stage
@@ -17,21 +36,55 @@ interface ParsedCourse {
   credits: number;
   grade: Grade;
   category: CourseCategory;
+  genEdDomain?: GenEdDomain;
   isCurrent: boolean;
+  source?: CreditSource;          // 抵免 / 免修 rows
+  suggestion: CategorySuggestion; // Where the pre-filled category came from
+  needsReview: boolean;           // Low-confidence suggestion the user has not touched yet
 }
 
-const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, onClose, onImport }) => {
+const KIND_BADGES: Record<ReconcileKind, { label: string; className: string }> = {
+  new: { label: '新增', className: 'bg-green-100 text-green-800' },
+  unchanged: { label: '相同', className: 'bg-gray-100 text-gray-500' },
+  updated: { label: '更新', className: 'bg-blue-100 text-blue-800' },
+  conflict: { label: '衝突', className: 'bg-red-100 text-red-800' },
+};
+
+const FIELD_LABELS: Partial<Record<keyof Course, string>> = {
+  credits: '學分',
+  grade: '成績',
+  isCurrent: '修習中',
+  isPlanned: '規劃中',
+  category: '類別',
+  source: '來源',
+};
+
+const describeValue = (course: Pick<Course, 'credits' | 'grade' | 'isCurrent' | 'isPlanned' | 'category' | 'source'>, field: keyof Course) =>
+  field === 'isCurrent' || field === 'isPlanned' ? (course[field] ? '是' : '否')
+    : field === 'source' ? CREDIT_SOURCE_LABELS[course.source || 'taken']
+    : String(course[field as 'credits' | 'grade' | 'category']);
+
+const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, onClose, onImport, curriculum, existingCourses, provider }) => {
   const [step, setStep] = useState<'input' | 'review'>('input');
   const [rawText, setRawText] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [parsedCourses, setParsedCourses] = useState<ParsedCourse[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // Which path produced the review rows; pasted text is parsed offline first, AI is the fallback
+  const [parseSource, setParseSource] = useState<'offline' | 'ai' | null>(null);
+  const [skippedLines, setSkippedLines] = useState<TranscriptParseResult['skippedLines']>([]);
+  // Conflicting rows keep the existing course unless the user picks the transcript's values
+  const [useImported, setUseImported] = useState<Record<string, boolean>>({});
+  const [aiSettings, setAiSettings] = useState<ExtractionSettings>(loadExtractionSettings);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
 
+  const matches = reconcileImport(existingCourses, parsedCourses);
+  const kindCounts = matches.reduce((acc, m) => ({ ...acc, [m.kind]: acc[m.kind] + 1 }), { new: 0, unchanged: 0, updated: 0, conflict: 0 } as Record<ReconcileKind, number>);
+
   // Safe ID generator fallback
   const generateId = () => {
     if (typeof crypto !== 'undefined' && crypto.randomUUID) {
@@ -40,8 +93,13 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
   };
 
-  // Helper to convert file to Base64 for Gemini
-  const fileToGenerativePart = async (file: File) => {
+  const handleAiSettingsChange = (settings: ExtractionSettings) => {
+    setAiSettings(settings);
+    saveExtractionSettings(settings);
+  };
+
+  // Helper to convert file to Base64 for the AI provider
+  const fileToExtractionInput = async (file: File): Promise<ExtractionInput> => {
     const base64EncodedDataPromise = new Promise<string>((resolve) => {
       const reader = new FileReader();
       reader.onloadend = () => {
@@ -54,13 +112,32 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
     });
     
     return {
-      inlineData: {
-        data: await base64EncodedDataPromise,
-        mimeType: file.type,
-      },
+      kind: 'file',
+      data: await base64EncodedDataPromise,
+      mimeType: file.type,
     };
   };
 
+  // Pre-fill each row's category from the catalog and the user's existing courses
+  const toReviewRows = (rows: ExtractedRow[]): ParsedCourse[] => {
+    const classify = createCategoryClassifier(curriculum, existingCourses);
+    return rows.map((row, idx) => {
+      const suggestion = classify(row.name, row.code);
+      return {
+        tempId: `parsed-${idx}-${Date.now()}`,
+        semester: row.semester,
+        name: row.name,
+        credits: row.credits,
+        grade: row.grade,
+        category: suggestion.category,
+        isCurrent: row.isCurrent,
+        source: row.source,
+        suggestion,
+        needsReview: suggestion.confidence === 'low',
+      };
+    });
+  };
+
   const handleAnalyze = async () => {
     if (!rawText.trim() && !selectedFile) return;
     
@@ -68,79 +145,15 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
     setError(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const systemInstruction = `
-        You are an assistant that extracts university course data from transcripts.
-        Extract a list of courses.
-        
-        Rules:
-        1. Convert semester to format "YYY-S" (e.g. 111/1 or 111上 becomes 111-1).
-        2. Extract course name strictly.
-        3. Extract credits (number).
-        4. Extract grade. Convert specific grades: "通過"->"Pass", "免修"->"Pass", "抵免"->"Pass".
-        5. Filter out courses with 0 credits unless they are Service Learning (服務學習).
-        6. Return purely JSON.
-      `;
-
-      let contents: any = {};
-
-      if (selectedFile) {
-        // Multimodal Input (PDF/Image)
-        const filePart = await fileToGenerativePart(selectedFile);
-        contents = {
-          parts: [
-            filePart,
-            { text: "Analyze this transcript document and extract the course history table." }
-          ]
-        };
-      } else {
-        // Text Input
-        contents = {
-            parts: [{ text: `Analyze the following transcript text:\n${rawText}` }]
-        };
-      }
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: contents,
-        config: {
-          systemInstruction: systemInstruction,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                semester: { type: Type.STRING },
-                name: { type: Type.STRING },
-                credits: { type: Type.NUMBER },
-                grade: { type: Type.STRING },
-              },
-              required: ["semester", "name", "credits", "grade"],
-            },
-          },
-        },
-      });
-
-      const data = JSON.parse(response.text || "[]");
-      
-      if (!Array.isArray(data) || data.length === 0) {
-        throw new Error("No courses found");
-      }
-
-      // Map to local state with unique IDs and default category
-      const mapped: ParsedCourse[] = data.map((item: any, idx: number) => ({
-        tempId: `parsed-${idx}-${Date.now()}`,
-        semester: item.semester || "111-1",
-        name: item.name || "Unknown Course",
-        credits: Number(item.credits) || 0, // Ensure number
-        grade: mapGrade(item.grade),
-        category: '一般選修', // Default to General Elective, user must change
-        isCurrent: false, // Default to not current
-      }));
-
-      setParsedCourses(mapped);
+      const input: ExtractionInput = selectedFile
+        ? await fileToExtractionInput(selectedFile) // Multimodal Input (PDF/Image)
+        : { kind: 'text', text: rawText };
+      const result = await extractTranscript(input, provider || createExtractionProvider(aiSettings));
+
+      // Map to local state with unique IDs and suggested categories
+      setParsedCourses(toReviewRows(result.rows));
+      setSkippedLines(result.skippedLines);
+      setParseSource(result.source);
       setStep('review');
 
     } catch (err) {
@@ -151,19 +164,25 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
     }
   };
 
-  // Helper to map raw grade strings to our Grade type
-  const mapGrade = (raw: string): Grade => {
-    if (!raw) return 'Pass';
-    const g = raw.trim().toUpperCase();
-    const valid: Grade[] = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'F', 'Pass'];
-    if (valid.includes(g as Grade)) return g as Grade;
-    if (['通過', '免修', '抵免', 'P', 'PASS'].some(x => g.includes(x))) return 'Pass';
-    return 'Pass'; // Fallback
-  };
-
   const handleFieldChange = (id: string, field: keyof ParsedCourse, value: any) => {
     setParsedCourses(prev => prev.map(c => 
-      c.tempId === id ? { ...c, [field]: value } : c
+      c.tempId === id ? { ...c, [field]: value, needsReview: field === 'category' ? false : c.needsReview } : c
+    ));
+  };
+
+  // A catalog pick fills in its credits and, when the catalog knows it, the category for this curriculum
+  const handleCatalogSelect = (id: string, { entry, category }: CatalogMatch) => {
+    setParsedCourses(prev => prev.map(c =>
+      c.tempId !== id ? c : {
+        ...c,
+        name: entry.name,
+        credits: entry.credits,
+        ...(category && {
+          category,
+          suggestion: { category, confidence: 'high' as const, reason: `課程目錄：${entry.name}` },
+          needsReview: false,
+        }),
+      }
     ));
   };
 
@@ -173,20 +192,30 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
 
   const handleConfirmImport = () => {
     try {
-      // Validate and convert ParsedCourse to actual Course
-      const finalCourses: Course[] = parsedCourses
-        .filter(c => c.name && !isNaN(c.credits)) // Basic validation
-        .map(c => ({
-          id: generateId(),
-          semester: c.semester,
-          name: c.name,
-          credits: Number(c.credits), // Ensure it's a number
-          grade: c.grade,
-          category: c.category,
-          isCurrent: c.isCurrent
-        }));
+      // Validate and convert ParsedCourse to actual Course; unchanged rows and kept conflicts produce nothing
+      const changes: Course[] = [];
+      parsedCourses.forEach((c, idx) => {
+        if (!c.name || isNaN(c.credits)) return; // Basic validation
+        const row = { ...c, credits: Number(c.credits) }; // Ensure it's a number
+        const match = matches[idx];
+        if (match.kind === 'new') {
+          changes.push({
+            id: generateId(),
+            semester: row.semester,
+            name: row.name,
+            credits: row.credits,
+            grade: row.grade,
+            category: row.category,
+            isCurrent: row.isCurrent,
+            source: row.source,
+            genEdDomain: row.category === '通識' ? row.genEdDomain : undefined
+          });
+        } else if (match.existing && (match.kind === 'updated' || (match.kind === 'conflict' && useImported[c.tempId]))) {
+          changes.push(applyImportedRow(match.existing, row));
+        }
+      });
       
-      onImport(finalCourses);
+      onImport(changes);
       handleClose();
     } catch (e) {
       console.error("Error importing courses:", e);
@@ -200,6 +229,9 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
     setSelectedFile(null);
     setParsedCourses([]);
     setError(null);
+    setParseSource(null);
+    setSkippedLines([]);
+    setUseImported({});
     if (fileInputRef.current) fileInputRef.current.value = '';
     onClose();
   };
@@ -241,7 +273,8 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
                 <div>
                   <p className="font-bold">使用說明：</p>
                   <p>您可以上傳成績單 PDF/圖片，或直接貼上文字。</p>
-                  <p>AI 會自動辨識課程名稱與成績，<span className="font-bold underline">修課類別將預設為「一般選修」，請在下一步驟自行分配。</span></p>
+                  <p>貼上的成績查詢頁面文字會先以離線規則解析；無法解析或上傳檔案時才使用 AI。</p>
+                  <p>系統會自動辨識課程名稱與成績，並依課程目錄與您既有的分類建議修課類別。<span className="font-bold underline">標示黃色的列無法判斷類別，請在下一步驟確認。</span></p>
                 </div>
               </div>
 
@@ -299,6 +332,8 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
                   ></textarea>
               </div>
 
+              {!provider && <ExtractionSettingsPanel settings={aiSettings} onChange={handleAiSettingsChange} />}
+
               {error && (
                 <div className="text-red-600 text-sm font-bold flex items-center bg-red-50 p-3 rounded border border-red-200">
                   <AlertCircle className="w-4 h-4 mr-1" />
@@ -313,26 +348,81 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
                <div className="bg-yellow-50 border border-yellow-200 p-3 rounded text-sm text-yellow-800 flex items-center justify-between">
                  <span className="flex items-center">
                     <Check className="w-4 h-4 mr-2" />
-                    已辨識 {parsedCourses.length} 門課程。請檢查並編輯所有欄位，設定正確的修課類別。
+                    已辨識 {parsedCourses.length} 門課程。請檢查並編輯所有欄位
+                    {parsedCourses.some(c => c.needsReview) && `，其中 ${parsedCourses.filter(c => c.needsReview).length} 門的修課類別需確認`}。
+                 </span>
+                 <span className="text-xs font-bold whitespace-nowrap ml-2">
+                    {parseSource === 'offline' ? '離線解析 (Offline)' : 'AI 辨識 (AI)'}
                  </span>
                </div>
 
+               {existingCourses.length > 0 && (
+                 <div className="flex flex-wrap gap-2 text-xs">
+                   <span className="text-gray-600">與現有課程比對：</span>
+                   {(Object.keys(KIND_BADGES) as ReconcileKind[]).map((kind) => (
+                     <span key={kind} className={`px-2 py-0.5 rounded font-bold ${KIND_BADGES[kind].className}`}>
+                       {KIND_BADGES[kind].label} {kindCounts[kind]}
+                     </span>
+                   ))}
+                   {kindCounts.unchanged > 0 && <span className="text-gray-400">相同的課程不會重複匯入</span>}
+                 </div>
+               )}
+
+               {skippedLines.length > 0 && (
+                 <details className="bg-gray-50 border border-gray-200 rounded text-xs text-gray-600 p-2">
+                   <summary className="cursor-pointer font-bold">
+                     有 {skippedLines.length} 行無法辨識，請確認是否需要手動新增
+                   </summary>
+                   <ul className="mt-1 font-mono space-y-0.5">
+                     {skippedLines.map((l) => (
+                       <li key={l.line}>#{l.line}: {l.text}</li>
+                     ))}
+                   </ul>
+                 </details>
+               )}
+
                <div className="overflow-x-auto border border-gray-200 rounded">
                  <table className="w-full text-sm text-left">
                    <thead className="bg-gray-100 text-gray-700 font-bold">
                      <tr>
+                       <th className="p-2 border-b w-28">比對</th>
                        <th className="p-2 border-b w-24">學期</th>
                        <th className="p-2 border-b">課程名稱</th>
                        <th className="p-2 border-b w-16">學分</th>
                        <th className="p-2 border-b w-24">成績</th>
                        <th className="p-2 border-b w-40">修課類別</th>
+                       <th className="p-2 border-b w-36">通識領域</th>
                        <th className="p-2 border-b w-20 text-center">本學期?</th>
                        <th className="p-2 border-b w-10"></th>
                      </tr>
                    </thead>
                    <tbody>
-                     {parsedCourses.map((course) => (
-                       <tr key={course.tempId} className="hover:bg-gray-50 border-b last:border-0">
+                     {parsedCourses.map((course, idx) => {
+                       const match = matches[idx];
+                       return (
+                       <tr key={course.tempId} className={`hover:bg-gray-50 border-b last:border-0 ${match.kind === 'unchanged' ? 'opacity-50' : ''}`}>
+                         <td className="p-2 text-xs align-top">
+                           <span className={`px-1.5 py-0.5 rounded font-bold ${KIND_BADGES[match.kind].className}`}>
+                             {KIND_BADGES[match.kind].label}
+                           </span>
+                           {match.existing && match.fields.length > 0 && (
+                             <div className="text-[10px] text-gray-500 mt-1 space-y-0.5">
+                               {match.fields.map((f) => (
+                                 <div key={f}>{FIELD_LABELS[f]}：{describeValue(match.existing!, f)} → {describeValue(course, f)}</div>
+                               ))}
+                             </div>
+                           )}
+                           {match.kind === 'conflict' && (
+                             <select
+                               className="mt-1 w-full border border-red-300 rounded p-0.5 text-[10px] bg-white"
+                               value={useImported[course.tempId] ? 'imported' : 'existing'}
+                               onChange={(e) => setUseImported(prev => ({ ...prev, [course.tempId]: e.target.value === 'imported' }))}
+                             >
+                               <option value="existing">保留現有</option>
+                               <option value="imported">使用匯入</option>
+                             </select>
+                           )}
+                         </td>
                          <td className="p-2">
                            <input 
                               type="text" 
@@ -342,10 +432,11 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
                            />
                          </td>
                          <td className="p-2">
-                            <input 
-                              type="text" 
+                            <CourseNameInput
                               value={course.name}
-                              onChange={(e) => handleFieldChange(course.tempId, 'name', e.target.value)}
+                              curriculum={curriculum}
+                              onChange={(name) => handleFieldChange(course.tempId, 'name', name)}
+                              onSelect={(match) => handleCatalogSelect(course.tempId, match)}
                               className="w-full border border-gray-300 rounded p-1 text-xs focus:border-ntu-red outline-none"
                            />
                          </td>
@@ -377,11 +468,15 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
                              <option value="Pass">Pass</option>
                              <option value="F">F</option>
                            </select>
+                           {course.source && (
+                             <div className="text-[10px] text-sky-700 mt-0.5">{CREDIT_SOURCE_LABELS[course.source]}</div>
+                           )}
                          </td>
-                         <td className="p-2">
+                         <td className={`p-2 ${course.needsReview ? 'bg-yellow-100' : ''}`}>
                            <select 
-                              className="w-full border border-gray-300 rounded p-1 text-xs focus:border-ntu-red outline-none bg-white"
+                              className={`w-full border rounded p-1 text-xs focus:border-ntu-red outline-none bg-white ${course.needsReview ? 'border-yellow-500' : 'border-gray-300'}`}
                               value={course.category}
+                              title={course.suggestion.reason}
                               onChange={(e) => handleFieldChange(course.tempId, 'category', e.target.value as CourseCategory)}
                            >
                              <option value="系訂必修">系訂必修</option>
@@ -392,6 +487,25 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
                              <option value="體育">體育</option>
                              <option value="其他">其他</option>
                            </select>
+                           {course.needsReview && (
+                             <div className="text-[10px] text-yellow-700 mt-0.5">請確認 (please check)</div>
+                           )}
+                         </td>
+                         <td className="p-2">
+                           {course.category === '通識' ? (
+                             <select
+                                className="w-full border border-gray-300 rounded p-1 text-xs focus:border-ntu-red outline-none bg-white"
+                                value={course.genEdDomain || ''}
+                                onChange={(e) => handleFieldChange(course.tempId, 'genEdDomain', (e.target.value as GenEdDomain) || undefined)}
+                             >
+                               <option value="">未設定</option>
+                               {GEN_ED_DOMAINS.map((d) => (
+                                 <option key={d} value={d}>{d} {GEN_ED_DOMAIN_LABELS[d]}</option>
+                               ))}
+                             </select>
+                           ) : (
+                             <span className="text-xs text-gray-300">—</span>
+                           )}
                          </td>
                          <td className="p-2 text-center">
                             <input 
@@ -410,7 +524,8 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
                            </button>
                          </td>
                        </tr>
-                     ))}
+                       );
+                     })}
                    </tbody>
                  </table>
                </div>
@@ -461,7 +576,7 @@ const TranscriptImportModal: React.FC<TranscriptImportModalProps> = ({ isOpen, o
                  onClick={handleConfirmImport} 
                  className="flex items-center px-4 py-2 rounded font-bold text-white bg-green-600 hover:bg-green-700 transition-colors"
                >
-                 確認匯入 (Confirm Import)
+                 {existingCourses.length > 0 ? '套用變更 (Apply Changes)' : '確認匯入 (Confirm Import)'}
                  <ArrowRight className="w-4 h-4 ml-2" />
                </button>
             </>
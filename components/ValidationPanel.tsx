@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { CourseWarning } from '../utils/validation';
+import { AlertTriangle, ChevronDown, ChevronRight, Wrench } from 'lucide-react';
+
+interface ValidationPanelProps {
+  warnings: CourseWarning[];
+  onFix: (warning: CourseWarning) => void;
+  onFixAll: () => void;
+}
+
+// Shown only while something looks wrong; rows with a known correction carry a quick fix
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ warnings, onFix, onFixAll }) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (warnings.length === 0) return null;
+  const fixable = warnings.filter((w) => w.fix);
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 shadow-sm p-3 mb-6 text-sm">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center space-x-2 font-bold text-amber-900"
+        >
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <AlertTriangle className="w-4 h-4 text-amber-600" />
+          <span>資料檢查：{warnings.length} 項可能有誤 (Data warnings)</span>
+        </button>
+        {fixable.length > 1 && (
+          <button
+            onClick={onFixAll}
+            className="text-xs font-bold px-2 py-1 border border-amber-400 bg-white text-amber-800 hover:bg-amber-100"
+          >
+            全部修正 {fixable.length} 項 (Fix all)
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <ul className="mt-2 divide-y divide-amber-200">
+          {warnings.map((warning) => (
+            <li key={warning.id} className="flex items-center justify-between py-1.5 gap-2">
+              <div className="text-xs overflow-hidden">
+                <span className="font-mono text-gray-500 mr-1">{warning.course.semester}</span>
+                <span className="font-bold text-gray-800 mr-2">{warning.course.name}</span>
+                <span className="text-amber-900">{warning.message}</span>
+              </div>
+              {warning.fix ? (
+                <button
+                  onClick={() => onFix(warning)}
+                  className="flex items-center space-x-1 text-xs whitespace-nowrap px-2 py-0.5 border border-amber-300 bg-white text-gray-700 hover:text-ntu-red hover:border-ntu-red"
+                >
+                  <Wrench className="w-3 h-3" />
+                  <span>{warning.fix.label}</span>
+                </button>
+              ) : (
+                <span className="text-xs whitespace-nowrap text-gray-500">請手動編輯 (Edit the course)</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,40 @@
+import { CatalogCourse } from '../types';
+
+// Bumped whenever course data is corrected or courses are added
+export const COURSE_CATALOG_VERSION = 2;
+
+// Courses the import classifier and the course-name autocomplete recognise, with how each counts per department.
+// "*" applies to every program (e.g. 共同必修). Credits are per semester offering; year-long courses list one half.
+export const COURSE_CATALOG: CatalogCourse[] = [
+  // 共同必修
+  { code: 'CHIN1001', name: '大學國文', nameEn: 'Chinese', credits: 3, aliases: ['國文'], categories: { '*': '共同必修' } },
+  { code: 'FL1001', name: '大一英文', nameEn: 'Freshman English', credits: 3, aliases: ['英文(一)', '英文(二)'], categories: { '*': '共同必修' } },
+
+  // 會計系核心
+  { code: 'ACCT1001', name: '會計學原理', nameEn: 'Principles of Accounting', credits: 3, aliases: ['會計學甲', '初級會計學'], categories: { accounting: '系訂必修', finance: '系訂必修', economics: '一般選修' } },
+  { code: 'MATH4006', name: '微積分', nameEn: 'Calculus', credits: 3, aliases: ['微積分(乙)'], categories: { accounting: '系訂必修', finance: '系訂必修', economics: '系訂必修' } },
+  { code: 'ECON1001', name: '經濟學原理', nameEn: 'Principles of Economics', credits: 3, aliases: ['經濟學'], categories: { accounting: '系訂必修', finance: '系訂必修', economics: '系訂必修' } },
+  { code: 'CSIE1000', name: '計算機概論', nameEn: 'Introduction to Computer Science', credits: 3, categories: { accounting: '系訂必修', finance: '一般選修', economics: '一般選修' } },
+  { code: 'LAW1001', name: '民法概要', nameEn: 'Introduction to Civil Law', credits: 3, categories: { accounting: '系訂必修', finance: '一般選修' } },
+  { code: 'ECON2014', name: '統計學', nameEn: 'Statistics', credits: 3, categories: { accounting: '系訂必修', finance: '系訂必修', economics: '系訂必修' } },
+  { code: 'MGT1001', name: '企業管理', nameEn: 'Business Management', credits: 3, aliases: ['管理學'], categories: { accounting: '系訂必修', finance: '系訂必修' } },
+  { code: 'ACCT2001', name: '中級會計學', nameEn: 'Intermediate Accounting', credits: 3, categories: { accounting: '系訂必修', finance: '指定選修' } },
+  { code: 'ACCT3001', name: '成本與管理會計學', nameEn: 'Cost and Managerial Accounting', credits: 3, aliases: ['成本會計', '管理會計'], categories: { accounting: '系訂必修' } },
+  { code: 'LAW3001', name: '商事法', nameEn: 'Commercial Law', credits: 3, categories: { accounting: '系訂必修', finance: '指定選修' } },
+  { code: 'ACCT3011', name: '高等會計學', nameEn: 'Advanced Accounting', credits: 3, categories: { accounting: '系訂必修' } },
+  { code: 'ACCT3021', name: '審計學', nameEn: 'Auditing', credits: 3, categories: { accounting: '系訂必修' } },
+  { code: 'FIN3001', name: '財務管理', nameEn: 'Financial Management', credits: 3, categories: { accounting: '系訂必修', finance: '系訂必修' } },
+  { code: 'ACCT3031', name: '稅務法規', nameEn: 'Tax Law', credits: 3, aliases: ['稅法'], categories: { accounting: '系訂必修' } },
+  { code: 'ACCT4001', name: '會計資訊系統', nameEn: 'Accounting Information Systems', credits: 3, categories: { accounting: '系訂必修' } },
+
+  // 指定選修
+  { code: 'ACCT5001', name: '財務報表分析', nameEn: 'Financial Statement Analysis', credits: 3, categories: { accounting: '指定選修', finance: '指定選修' } },
+  { code: 'ACCT5011', name: '政府會計', nameEn: 'Governmental Accounting', credits: 3, categories: { accounting: '指定選修' } },
+  { code: 'ACCT5021', name: '內部控制與內部稽核', nameEn: 'Internal Control and Internal Auditing', credits: 3, aliases: ['內部稽核'], categories: { accounting: '指定選修' } },
+  { code: 'FIN2001', name: '投資學', nameEn: 'Investments', credits: 3, categories: { accounting: '指定選修', finance: '系訂必修' } },
+  { code: 'ECON2001', name: '個體經濟學', nameEn: 'Microeconomics', credits: 3, categories: { accounting: '指定選修', finance: '指定選修', economics: '系訂必修' } },
+  { code: 'ECON2002', name: '總體經濟學', nameEn: 'Macroeconomics', credits: 3, categories: { accounting: '指定選修', finance: '指定選修', economics: '系訂必修' } },
+
+  // 體育
+  { code: 'PE1001', name: '大一體育', nameEn: 'Freshman Physical Education', credits: 0, aliases: ['體育'], categories: { '*': '體育' } },
+];
@@ -0,0 +1,180 @@
+import { CreditLoadLimits, CurriculumRuleSet, ExemptionRules, GenEdDomainRequirement, OverflowRules, Prerequisite, RequiredCourse, RuleSetRef } from '../types';
+
+// NTU rule: 指定選修 and 通識 credits above the requirement count as 一般選修
+const NTU_OVERFLOW_RULES: OverflowRules = {
+  designatedElective: 'generalElective',
+  generalEducation: 'generalElective',
+};
+
+// 通識 must span at least 4 of the 8 domains (A1–A8)
+const NTU_GEN_ED_DOMAINS: GenEdDomainRequirement = {
+  minDomains: 4,
+  minCreditsPerDomain: 2,
+};
+
+// 學則: at least 15 and at most 25 credits per regular semester
+const NTU_CREDIT_LOAD: CreditLoadLimits = {
+  min: 15,
+  max: 25,
+};
+
+// 抵免: at most 40 credits from exemptions, transfers and exam waivers, none of them toward 通識
+const NTU_EXEMPTION_RULES: ExemptionRules = {
+  maxCredits: 40,
+  allowedBuckets: ['commonRequired', 'deptRequired', 'designatedElective', 'generalElective'],
+};
+
+// 系訂必修 course list shared by the Accounting rule sets (69 credits for 110/111 entry)
+const ACCOUNTING_REQUIRED_COURSES: RequiredCourse[] = [
+  { name: '會計學原理', credits: 6, aliases: ['會計學甲', '初級會計學'] },
+  { name: '微積分', credits: 6 },
+  { name: '經濟學', credits: 6, aliases: ['經濟學原理'] },
+  { name: '計算機概論', credits: 3 },
+  { name: '民法概要', credits: 3 },
+  { name: '統計學', credits: 6 },
+  { name: '企業管理', credits: 3, aliases: ['管理學'] },
+  { name: '中級會計學', credits: 6 },
+  { name: '成本與管理會計學', credits: 6, aliases: ['成本會計', '管理會計'] },
+  { name: '商事法', credits: 3 },
+  { name: '高等會計學', credits: 6 },
+  { name: '審計學', credits: 6 },
+  { name: '財務管理', credits: 3 },
+  { name: '稅務法規', credits: 3, aliases: ['稅法'] },
+  { name: '會計資訊系統', credits: 3 },
+];
+
+// 先修科目: the accounting sequence 會計學原理 → 中級會計學 → 高等會計學 → 審計學
+const ACCOUNTING_PREREQUISITES: Prerequisite[] = [
+  { course: '中級會計學', requires: ['會計學原理'] },
+  { course: '成本與管理會計學', requires: ['會計學原理'] },
+  { course: '高等會計學', requires: ['中級會計學'] },
+  { course: '審計學', requires: ['高等會計學'] },
+  { course: '財務報表分析', requires: ['中級會計學'] },
+];
+
+// Graduation rule sets, keyed by department + entry year.
+// Each entry: 共同必修 + 系訂必修 + 指定選修 + 一般選修 + 通識 = 總學分
+export const CURRICULA: CurriculumRuleSet[] = [
+  {
+    id: 'accounting-110',
+    version: 1,
+    departmentId: 'accounting',
+    department: '會計學系',
+    departmentEn: 'Department of Accounting',
+    entryYear: 110,
+    requirements: {
+      total: 133,
+      commonRequired: 9,
+      deptRequired: 69,
+      designatedElective: 21,
+      generalElective: 19,
+      generalEducation: 15,
+    },
+    overflowRules: NTU_OVERFLOW_RULES,
+    genEdDomains: NTU_GEN_ED_DOMAINS,
+    creditLoad: NTU_CREDIT_LOAD,
+    exemptionRules: NTU_EXEMPTION_RULES,
+    requiredCourses: ACCOUNTING_REQUIRED_COURSES,
+    prerequisites: ACCOUNTING_PREREQUISITES,
+  },
+  {
+    // 共同必修(9) + 系訂必修(69) + 指定選修(21) + 一般選修(19) + 通識(15) = 總學分(133)
+    id: 'accounting-111',
+    version: 1,
+    departmentId: 'accounting',
+    department: '會計學系',
+    departmentEn: 'Department of Accounting',
+    entryYear: 111,
+    requirements: {
+      total: 133,
+      commonRequired: 9,
+      deptRequired: 69,
+      designatedElective: 21,
+      generalElective: 19,
+      generalEducation: 15,
+    },
+    overflowRules: NTU_OVERFLOW_RULES,
+    genEdDomains: NTU_GEN_ED_DOMAINS,
+    creditLoad: NTU_CREDIT_LOAD,
+    exemptionRules: NTU_EXEMPTION_RULES,
+    requiredCourses: ACCOUNTING_REQUIRED_COURSES,
+    prerequisites: ACCOUNTING_PREREQUISITES,
+  },
+  {
+    id: 'accounting-112',
+    version: 1,
+    departmentId: 'accounting',
+    department: '會計學系',
+    departmentEn: 'Department of Accounting',
+    entryYear: 112,
+    requirements: {
+      total: 130,
+      commonRequired: 9,
+      deptRequired: 66,
+      designatedElective: 21,
+      generalElective: 19,
+      generalEducation: 15,
+    },
+    overflowRules: NTU_OVERFLOW_RULES,
+    genEdDomains: NTU_GEN_ED_DOMAINS,
+    creditLoad: NTU_CREDIT_LOAD,
+    exemptionRules: NTU_EXEMPTION_RULES,
+    // 計算機概論 was dropped from 系訂必修 starting with 112 entry
+    requiredCourses: ACCOUNTING_REQUIRED_COURSES.filter((c) => c.name !== '計算機概論'),
+    prerequisites: ACCOUNTING_PREREQUISITES,
+  },
+  {
+    id: 'finance-111',
+    version: 1,
+    departmentId: 'finance',
+    department: '財務金融學系',
+    departmentEn: 'Department of Finance',
+    entryYear: 111,
+    requirements: {
+      total: 128,
+      commonRequired: 9,
+      deptRequired: 54,
+      designatedElective: 18,
+      generalElective: 32,
+      generalEducation: 15,
+    },
+    overflowRules: NTU_OVERFLOW_RULES,
+    genEdDomains: NTU_GEN_ED_DOMAINS,
+    creditLoad: NTU_CREDIT_LOAD,
+    exemptionRules: NTU_EXEMPTION_RULES,
+  },
+  {
+    id: 'economics-111',
+    version: 1,
+    departmentId: 'economics',
+    department: '經濟學系',
+    departmentEn: 'Department of Economics',
+    entryYear: 111,
+    requirements: {
+      total: 128,
+      commonRequired: 9,
+      deptRequired: 45,
+      designatedElective: 15,
+      generalElective: 44,
+      generalEducation: 15,
+    },
+    overflowRules: NTU_OVERFLOW_RULES,
+    genEdDomains: NTU_GEN_ED_DOMAINS,
+    creditLoad: NTU_CREDIT_LOAD,
+    exemptionRules: NTU_EXEMPTION_RULES,
+  },
+];
+
+export const DEFAULT_CURRICULUM_ID = 'accounting-111';
+
+export const getCurriculum = (id: string | undefined): CurriculumRuleSet => {
+  return CURRICULA.find((c) => c.id === id) || CURRICULA.find((c) => c.id === DEFAULT_CURRICULUM_ID)!;
+};
+
+export const toRuleSetRef = (curriculum: CurriculumRuleSet): RuleSetRef => ({
+  id: curriculum.id,
+  version: curriculum.version,
+});
+
+// ROC year -> Western calendar year of entry (e.g. 111 -> 2022)
+export const entryYearToAD = (entryYear: number) => entryYear + 1911;
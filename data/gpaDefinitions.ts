@@ -0,0 +1,10 @@
+import { GpaDefinition } from '../types';
+
+// GPA variants shown side by side in the summary. Common asks:
+// scholarships and exchange programs use the overall GPA, graduate schools often the major or last-60-credits GPA.
+export const GPA_DEFINITIONS: GpaDefinition[] = [
+  { id: 'overall', name: '總平均', nameEn: 'Overall' },
+  { id: 'major', name: '主修', nameEn: 'Major', categories: ['系訂必修', '指定選修'] },
+  { id: 'last-60', name: '最後 60 學分', nameEn: 'Last 60 credits', lastCredits: 60 },
+  { id: 'last-2-years', name: '最後兩學年', nameEn: 'Last 2 years', lastSemesters: 4 },
+];
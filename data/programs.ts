@@ -0,0 +1,101 @@
+import { ProgramKind, RuleSetRef, SecondaryProgram } from '../types';
+
+export const PROGRAM_KIND_LABELS: Record<ProgramKind, string> = {
+  doubleMajor: '雙主修',
+  minor: '輔系',
+};
+
+export const PROGRAM_KIND_LABELS_EN: Record<ProgramKind, string> = {
+  doubleMajor: 'Double Major',
+  minor: 'Minor',
+};
+
+// 雙主修 / 輔系 rule sets offered to students of other departments
+export const SECONDARY_PROGRAMS: SecondaryProgram[] = [
+  {
+    id: 'finance-double-major',
+    version: 1,
+    kind: 'doubleMajor',
+    departmentId: 'finance',
+    department: '財務金融學系',
+    departmentEn: 'Department of Finance',
+    requiredCredits: 40,
+    maxSharedCredits: 15,
+    requiredCourses: [
+      { name: '財務管理', credits: 3 },
+      { name: '投資學', credits: 3 },
+      { name: '統計學', credits: 6 },
+      { name: '經濟學', credits: 6, aliases: ['經濟學原理'] },
+    ],
+    electives: ['期貨與選擇權', '金融市場', '公司理財', '固定收益證券'],
+  },
+  {
+    id: 'finance-minor',
+    version: 1,
+    kind: 'minor',
+    departmentId: 'finance',
+    department: '財務金融學系',
+    departmentEn: 'Department of Finance',
+    requiredCredits: 20,
+    maxSharedCredits: 6,
+    requiredCourses: [
+      { name: '財務管理', credits: 3 },
+      { name: '投資學', credits: 3 },
+    ],
+    electives: ['期貨與選擇權', '金融市場', '公司理財', '固定收益證券'],
+  },
+  {
+    id: 'economics-double-major',
+    version: 1,
+    kind: 'doubleMajor',
+    departmentId: 'economics',
+    department: '經濟學系',
+    departmentEn: 'Department of Economics',
+    requiredCredits: 40,
+    maxSharedCredits: 15,
+    requiredCourses: [
+      { name: '個體經濟學', credits: 6 },
+      { name: '總體經濟學', credits: 6 },
+      { name: '統計學', credits: 6 },
+    ],
+    electives: ['計量經濟學', '貨幣銀行學', '國際貿易', '產業經濟學'],
+  },
+  {
+    id: 'economics-minor',
+    version: 1,
+    kind: 'minor',
+    departmentId: 'economics',
+    department: '經濟學系',
+    departmentEn: 'Department of Economics',
+    requiredCredits: 20,
+    maxSharedCredits: 6,
+    requiredCourses: [
+      { name: '個體經濟學', credits: 6 },
+      { name: '總體經濟學', credits: 6 },
+    ],
+    electives: ['計量經濟學', '貨幣銀行學', '國際貿易', '產業經濟學'],
+  },
+  {
+    id: 'accounting-minor',
+    version: 1,
+    kind: 'minor',
+    departmentId: 'accounting',
+    department: '會計學系',
+    departmentEn: 'Department of Accounting',
+    requiredCredits: 20,
+    maxSharedCredits: 6,
+    requiredCourses: [
+      { name: '會計學原理', credits: 6, aliases: ['會計學甲', '初級會計學'] },
+      { name: '中級會計學', credits: 6 },
+    ],
+  },
+];
+
+// Unknown ids (e.g. a program removed from the data) resolve to undefined and are dropped
+export const getSecondaryProgram = (id: string): SecondaryProgram | undefined =>
+  SECONDARY_PROGRAMS.find((p) => p.id === id);
+
+export const toProgramRef = (program: SecondaryProgram): RuleSetRef => ({
+  id: program.id,
+  version: program.version,
+});
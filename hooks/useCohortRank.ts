@@ -0,0 +1,63 @@
+import { useState, useEffect, useMemo } from 'react';
+import { anonymizeEntry, CohortDataset, CohortRank, CohortService, estimatePercentile, loadContributorId } from '../services/cohort';
+
+export type CohortStatus = 'disabled' | 'loading' | 'ready' | 'error';
+
+export interface CohortSummary {
+  entryYear: number;
+  departmentId: string;
+  gpa: number;
+  credits: number;
+}
+
+const PUBLISH_DELAY_MS = 2000;
+
+// Publish this browser's GPA summary (debounced) and rank it against the cohort.
+// Pass a null service while the user has not opted in, or a null summary while there is no graded course yet.
+const useCohortRank = (service: CohortService | null, summary: CohortSummary | null) => {
+  const [status, setStatus] = useState<CohortStatus>('disabled');
+  const [dataset, setDataset] = useState<CohortDataset | null>(null);
+  const contributor = useMemo(loadContributorId, []);
+
+  // Only re-publish when what would be stored changes
+  const entryKey = summary
+    ? JSON.stringify(anonymizeEntry(contributor, summary.entryYear, summary.departmentId, summary.gpa, summary.credits), ['entryYear', 'departmentId', 'gpa', 'credits'])
+    : null;
+
+  useEffect(() => {
+    if (!service || !summary) {
+      setStatus('disabled');
+      setDataset(null);
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+    const timer = setTimeout(async () => {
+      try {
+        const next = await service.publish(
+          anonymizeEntry(contributor, summary.entryYear, summary.departmentId, summary.gpa, summary.credits)
+        );
+        if (cancelled) return;
+        setDataset(next);
+        setStatus('ready');
+      } catch (error) {
+        console.error('Failed to publish cohort summary:', error);
+        if (!cancelled) setStatus('error');
+      }
+    }, PUBLISH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [service, entryKey]);
+
+  const rank: CohortRank | null = dataset && summary
+    ? estimatePercentile(dataset, summary.entryYear, summary.departmentId, summary.gpa)
+    : null;
+
+  return { status, rank };
+};
+
+export default useCohortRank;
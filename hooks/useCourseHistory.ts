@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { Course } from '../types';
+
+interface HistoryEntry {
+  label: string;      // e.g. "刪除 審計學", shown on the undo/redo buttons
+  snapshot: Course[]; // Course list to restore
+}
+
+const MAX_HISTORY = 50;
+
+const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// Undo/redo for course edits. Every change goes through `commit`, so a batch import
+// is one entry and undoes as one step. Bound to Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y).
+const useCourseHistory = (courses: Course[], setCourses: (courses: Course[]) => void) => {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+
+  const commit = (label: string, update: (prev: Course[]) => Course[]) => {
+    const next = update(courses);
+    if (next === courses) return;
+    setPast([...past, { label, snapshot: courses }].slice(-MAX_HISTORY));
+    setFuture([]);
+    setCourses(next);
+  };
+
+  const undo = () => {
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    setPast(past.slice(0, -1));
+    setFuture([{ label: entry.label, snapshot: courses }, ...future]);
+    setCourses(entry.snapshot);
+  };
+
+  const redo = () => {
+    const entry = future[0];
+    if (!entry) return;
+    setFuture(future.slice(1));
+    setPast([...past, { label: entry.label, snapshot: courses }]);
+    setCourses(entry.snapshot);
+  };
+
+  // Forget history when the list is replaced from outside (e.g. pulled from the remote)
+  const reset = () => {
+    setPast([]);
+    setFuture([]);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return {
+    commit,
+    undo,
+    redo,
+    reset,
+    undoLabel: past.length > 0 ? past[past.length - 1].label : null,
+    redoLabel: future.length > 0 ? future[0].label : null,
+  };
+};
+
+export default useCourseHistory;
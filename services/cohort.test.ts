@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryJsonStore } from './storage';
+import {
+  anonymizeEntry,
+  CohortDataset,
+  CohortEntry,
+  COHORT_BASKET_ID,
+  createCohortService,
+  createConfiguredCohortService,
+  estimatePercentile,
+  MIN_COHORT_SIZE,
+} from './cohort';
+import { getGpaCourses, sumGradePoints, toGpa } from '../utils/gpa';
+import { course } from '../utils/__fixtures__/courses';
+
+const entry = (contributor: string, gpa: number, overrides: Partial<CohortEntry> = {}): CohortEntry => ({
+  ...anonymizeEntry(contributor, 111, 'accounting', gpa, 60),
+  ...overrides,
+});
+
+describe('createCohortService', () => {
+  it('publishes one entry per contributor, replacing the previous one', async () => {
+    const store = createMemoryJsonStore();
+    const service = createCohortService(store);
+
+    await service.publish(entry('a', 3.5));
+    await service.publish(entry('b', 3.8));
+    const saved = await service.publish(entry('a', 3.9));
+
+    expect(saved.entries.map((e) => [e.contributor, e.gpa])).toEqual([['b', 3.8], ['a', 3.9]]);
+    expect(((await store.load()) as CohortDataset).entries).toHaveLength(2);
+  });
+
+  it('withdraws only this contributor', async () => {
+    const store = createMemoryJsonStore({ version: 1, entries: [entry('a', 3.5), entry('b', 3.8)] });
+    const service = createCohortService(store);
+
+    await service.withdraw('a');
+
+    expect((await service.load()).entries.map((e) => e.contributor)).toEqual(['b']);
+  });
+
+  it('never stores course names or ids', async () => {
+    const courses = [
+      course('course-id-1', { name: '中級會計學上' }),
+      course('course-id-2', { name: '微積分上', category: '共同必修', grade: 'B+' }),
+    ];
+    const totals = sumGradePoints(getGpaCourses(courses));
+    const store = createMemoryJsonStore();
+
+    // Even an entry that carries extra data only has the summary fields stored
+    await createCohortService(store).publish({
+      ...anonymizeEntry('contributor-1', 111, 'accounting', toGpa(totals), totals.credits),
+      courses,
+    } as CohortEntry);
+
+    const stored = JSON.stringify(await store.load());
+    courses.forEach((c) => {
+      expect(stored).not.toContain(c.id);
+      expect(stored).not.toContain(c.name);
+    });
+    expect(JSON.parse(stored).entries[0]).toEqual({
+      contributor: 'contributor-1',
+      entryYear: 111,
+      departmentId: 'accounting',
+      gpa: 3.65,
+      credits: 0,
+      updatedAt: expect.any(String),
+    });
+  });
+});
+
+describe('createConfiguredCohortService', () => {
+  const settings = { remoteEnabled: false, pantryId: 'own-pantry', basketId: 'basket-1', cohortOptIn: true };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the dataset in this browser when remote sync is off', async () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+    const fetchImpl = vi.fn() as unknown as typeof fetch;
+
+    await createConfiguredCohortService(settings, fetchImpl).publish(entry('a', 3.5));
+
+    expect(fetchImpl).not.toHaveBeenCalled();
+    expect(storage.size).toBe(1);
+  });
+
+  it("writes to the cohort basket in the user's own pantry when remote sync is on", async () => {
+    const fetchImpl = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) =>
+      init?.method === 'POST' ? new Response('ok') : new Response('Could not get basket', { status: 400 })
+    );
+
+    await createConfiguredCohortService({ ...settings, remoteEnabled: true }, fetchImpl as unknown as typeof fetch).publish(entry('a', 3.5));
+
+    expect(fetchImpl.mock.calls.map(([url, init]) => [init?.method || 'GET', String(url)])).toEqual([
+      ['GET', `https://getpantry.cloud/apiv1/pantry/own-pantry/basket/${COHORT_BASKET_ID}`],
+      ['POST', `https://getpantry.cloud/apiv1/pantry/own-pantry/basket/${COHORT_BASKET_ID}`],
+    ]);
+  });
+});
+
+describe('estimatePercentile', () => {
+  const dataset: CohortDataset = {
+    version: 1,
+    entries: [
+      entry('a', 3.0),
+      entry('b', 3.2),
+      entry('c', 3.5),
+      entry('d', 3.5),
+      entry('e', 4.0),
+      entry('other-year', 2.0, { entryYear: 112 }),
+      entry('other-dept', 2.0, { departmentId: 'finance' }),
+    ],
+  };
+
+  it('ranks within the same entry year and department, ties counting half', () => {
+    expect(estimatePercentile(dataset, 111, 'accounting', 3.5)).toEqual({ percentile: 60, sampleSize: 5 });
+    expect(estimatePercentile(dataset, 111, 'accounting', 4.3)).toEqual({ percentile: 100, sampleSize: 5 });
+  });
+
+  it('returns null below the minimum cohort size', () => {
+    const small = { version: 1 as const, entries: dataset.entries.slice(0, MIN_COHORT_SIZE - 1) };
+
+    expect(estimatePercentile(small, 111, 'accounting', 3.5)).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { createLocalJsonStore, createPantryJsonStore, JsonStore, StorageSettings } from './storage';
+
+// One contribution. Holds no course names, course ids or basket ids: just a random contributor
+// token, the cohort it belongs to and a rounded summary. Not anonymous to whoever can read the store.
+export interface CohortEntry {
+  contributor: string;  // Random per-browser token so re-publishing replaces the previous entry
+  entryYear: number;
+  departmentId: string;
+  gpa: number;          // Overall GPA of completed courses, 2 decimals
+  credits: number;      // Completed graded credits, rounded down to a multiple of 10
+  updatedAt: string;
+}
+
+export interface CohortDataset {
+  version: 1;
+  entries: CohortEntry[];
+}
+
+export interface CohortRank {
+  percentile: number;   // Share of the cohort below this GPA (ties count half), 0–100
+  sampleSize: number;
+}
+
+// Cohort ranking is switched off. Classmates only form a cohort by sharing one Pantry ID, and anyone
+// holding a Pantry ID can list and read every basket in it, course lists included. It stays off until
+// there is a store that contributors can write to but not read each other's data from.
+export const COHORT_RANKING_AVAILABLE = false;
+
+// Shared basket in the configured pantry that every opted-in user of that pantry writes to.
+// publish/withdraw read the whole dataset, change one entry and write it back; Pantry has no
+// compare-and-swap, so when two users publish at the same moment the later write drops the
+// other's entry until that user publishes again (their next GPA change, or next visit).
+export const COHORT_BASKET_ID = 'ntu-cohort-gpa';
+// With remote sync off the dataset stays in this browser and holds only this user's entry
+const COHORT_DATA_KEY = 'ntu-credit-calculator:cohort';
+// Below this many entries a percentile says more about individuals than about the cohort
+export const MIN_COHORT_SIZE = 5;
+
+const CONTRIBUTOR_KEY = 'ntu-credit-calculator:cohort-contributor';
+
+const emptyDataset = (): CohortDataset => ({ version: 1, entries: [] });
+
+// Only the CohortEntry fields are ever stored, whatever else an entry object carries
+const toStoredEntry = (e: CohortEntry): CohortEntry => ({
+  contributor: e.contributor,
+  entryYear: e.entryYear,
+  departmentId: e.departmentId,
+  gpa: e.gpa,
+  credits: e.credits,
+  updatedAt: e.updatedAt,
+});
+
+const parseDataset = (data: any): CohortDataset => {
+  if (!data || !Array.isArray(data.entries)) return emptyDataset();
+  return {
+    version: 1,
+    entries: data.entries
+      .filter((e: any) =>
+        e && typeof e.contributor === 'string' && typeof e.entryYear === 'number' &&
+        typeof e.departmentId === 'string' && typeof e.gpa === 'number'
+      )
+      .map(toStoredEntry),
+  };
+};
+
+// Strip a summary down to what may be published
+export const anonymizeEntry = (
+  contributor: string,
+  entryYear: number,
+  departmentId: string,
+  gpa: number,
+  credits: number
+): CohortEntry => ({
+  contributor,
+  entryYear,
+  departmentId,
+  gpa: Math.round(gpa * 100) / 100,
+  credits: Math.floor(credits / 10) * 10,
+  updatedAt: new Date().toISOString(),
+});
+
+export interface CohortService {
+  load: () => Promise<CohortDataset>;
+  // Insert or replace this contributor's entry; resolves to the dataset as saved
+  publish: (entry: CohortEntry) => Promise<CohortDataset>;
+  // Remove this contributor's entry (on opt-out)
+  withdraw: (contributor: string) => Promise<void>;
+}
+
+// Works with any JsonStore: the configured backend in the app, an in-memory store in tests
+export const createCohortService = (store: JsonStore): CohortService => {
+  const load = async () => parseDataset(await store.load());
+
+  return {
+    load,
+    publish: async (entry) => {
+      const dataset = await load();
+      const next: CohortDataset = {
+        version: 1,
+        entries: [...dataset.entries.filter((e) => e.contributor !== entry.contributor), toStoredEntry(entry)],
+      };
+      await store.save(next);
+      return next;
+    },
+    withdraw: async (contributor) => {
+      const dataset = await load();
+      if (!dataset.entries.some((e) => e.contributor === contributor)) return;
+      await store.save({ version: 1, entries: dataset.entries.filter((e) => e.contributor !== contributor) });
+    },
+  };
+};
+
+// The dataset lives on the configured storage backend: the user's own pantry when remote sync is on,
+// otherwise this browser's localStorage, so nothing is sent anywhere
+export const createConfiguredCohortService = (settings: StorageSettings, fetchImpl?: typeof fetch) =>
+  createCohortService(settings.remoteEnabled
+    ? createPantryJsonStore(settings.pantryId, COHORT_BASKET_ID, fetchImpl)
+    : createLocalJsonStore(COHORT_DATA_KEY));
+
+// Percentile within the same department and entry year; null until the cohort is large enough
+export const estimatePercentile = (
+  dataset: CohortDataset,
+  entryYear: number,
+  departmentId: string,
+  gpa: number
+): CohortRank | null => {
+  const cohort = dataset.entries.filter((e) => e.entryYear === entryYear && e.departmentId === departmentId);
+  if (cohort.length < MIN_COHORT_SIZE) return null;
+  const rounded = Math.round(gpa * 100) / 100;
+  const below = cohort.filter((e) => e.gpa < rounded).length;
+  const ties = cohort.filter((e) => e.gpa === rounded).length;
+  return { percentile: Math.round(((below + ties / 2) / cohort.length) * 100), sampleSize: cohort.length };
+};
+
+export const loadContributorId = (): string => {
+  const id = typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : Math.random().toString(36).substring(2) + Date.now().toString(36);
+  try {
+    const saved = localStorage.getItem(CONTRIBUTOR_KEY);
+    if (saved) return saved;
+    localStorage.setItem(CONTRIBUTOR_KEY, id);
+  } catch (error) {
+    console.error('Failed to persist cohort contributor id:', error);
+  }
+  return id;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  ExtractionProvider,
+  extractTranscript,
+  MOCK_COURSES,
+} from './extraction';
+
+// An OpenAI-compatible server whose reply carries `content` as the model's message
+const replyWith = (content: string, status = 200) =>
+  vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status })) as unknown as typeof fetch;
+
+const failingProvider = (message: string): ExtractionProvider => ({
+  kind: 'openai',
+  extract: async () => {
+    throw new Error(message);
+  },
+});
+
+describe('extractTranscript', () => {
+  it('maps the mock provider courses into review rows', async () => {
+    const result = await extractTranscript({ kind: 'file', data: '', mimeType: 'application/pdf' }, createMockProvider());
+
+    expect(result.source).toBe('ai');
+    expect(result.rows).toHaveLength(MOCK_COURSES.length);
+    expect(result.rows[0]).toEqual({
+      semester: '111-1', code: 'ACCT1001', name: '會計學原理上', credits: 3, grade: 'A', isCurrent: false, source: undefined,
+    });
+    expect(result.rows[3].grade).toBe('Pass'); // 通過
+  });
+
+  it('reads 抵免 and 免修 grades as credit records', async () => {
+    const provider = createMockProvider([
+      { semester: '111-1', name: '會計學原理上', credits: 3, grade: '抵免' },
+      { semester: '111-1', name: '微積分上', credits: 3, grade: '免修' },
+    ]);
+    const { rows } = await extractTranscript({ kind: 'text', text: '(image of a transcript)' }, provider);
+
+    expect(rows.map((r) => [r.grade, r.source])).toEqual([['Pass', 'exempted'], ['Pass', 'examWaiver']]);
+  });
+
+  it('parses readable pasted text offline without calling the provider', async () => {
+    const provider = createMockProvider();
+    const extract = vi.spyOn(provider, 'extract');
+    const result = await extractTranscript({ kind: 'text', text: '111-1\nACCT1001  會計學原理上  3  A' }, provider);
+
+    expect(result.source).toBe('offline');
+    expect(result.rows.map((r) => r.name)).toEqual(['會計學原理上']);
+    expect(extract).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the provider when the offline parser finds nothing', async () => {
+    const result = await extractTranscript({ kind: 'text', text: 'no rows here' }, createMockProvider());
+
+    expect(result.source).toBe('ai');
+    expect(result.rows.map((r) => r.name)).toEqual(MOCK_COURSES.map((c) => c.name));
+  });
+
+  it('passes on a provider failure after the offline parser found nothing', async () => {
+    await expect(extractTranscript({ kind: 'text', text: 'no rows here' }, failingProvider('offline model down')))
+      .rejects.toThrow('offline model down');
+  });
+
+  it('does not need the provider when the offline parser succeeds', async () => {
+    const result = await extractTranscript({ kind: 'text', text: '111-1\n會計學原理上  3  A' }, failingProvider('never called'));
+
+    expect(result.rows).toHaveLength(1);
+  });
+
+  it('rejects an empty extraction', async () => {
+    await expect(extractTranscript({ kind: 'text', text: '' }, createMockProvider([]))).rejects.toThrow('No courses found');
+  });
+});
+
+describe('OpenAI-compatible provider responses', () => {
+  const extract = (fetchImpl: typeof fetch) =>
+    createOpenAICompatibleProvider('http://localhost:11434/v1/', 'model', '', fetchImpl).extract({ kind: 'text', text: '' });
+
+  it('accepts JSON wrapped in a code fence or a courses object', async () => {
+    const fenced = '```json\n{"courses": [{"semester": "111-1", "name": "審計學", "credits": "3", "grade": "A"}]}\n```';
+
+    expect(await extract(replyWith(fenced))).toEqual([{ semester: '111-1', code: undefined, name: '審計學', credits: 3, grade: 'A' }]);
+  });
+
+  it('rejects a reply that is not JSON', async () => {
+    await expect(extract(replyWith('Sure! Here are your courses: 審計學 A'))).rejects.toThrow(SyntaxError);
+  });
+
+  it('rejects JSON of the wrong shape', async () => {
+    await expect(extract(replyWith('{"rows": []}'))).rejects.toThrow('Unexpected response shape');
+  });
+
+  it('fails on an error status', async () => {
+    await expect(extract(replyWith('', 503))).rejects.toThrow('Extraction request failed (503)');
+  });
+});
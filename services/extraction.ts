@@ -0,0 +1,242 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { creditSourceFromGrade, mapGrade, parseTranscriptText, TranscriptParseResult, TranscriptRow } from '../utils/transcriptParser';
+
+// What the user gave us to extract courses from
+export type ExtractionInput =
+  | { kind: 'text'; text: string }
+  | { kind: 'file'; data: string; mimeType: string }; // data: base64 without the "data:...;base64," prefix
+
+// One course as the model returned it; grade is still the raw transcript string
+export interface ExtractedCourse {
+  semester: string;
+  code?: string;
+  name: string;
+  credits: number;
+  grade: string;
+}
+
+export type ExtractionProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ExtractionProvider {
+  kind: ExtractionProviderKind;
+  extract: (input: ExtractionInput) => Promise<ExtractedCourse[]>;
+}
+
+export interface ExtractionSettings {
+  provider: ExtractionProviderKind;
+  model: string;
+  apiKey: string;  // Empty: Gemini falls back to the build-time GEMINI_API_KEY
+  baseUrl: string; // OpenAI-compatible servers only, e.g. a local Ollama or LM Studio
+}
+
+export const PROVIDER_LABELS: Record<ExtractionProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 相容 (OpenAI-compatible)',
+  mock: '測試用假資料 (Mock)',
+};
+
+export const DEFAULT_MODELS: Record<ExtractionProviderKind, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock',
+};
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  apiKey: '',
+  baseUrl: 'http://localhost:11434/v1',
+};
+
+const SETTINGS_KEY = 'ntu-credit-calculator:extraction-settings';
+
+const SYSTEM_INSTRUCTION = `
+  You are an assistant that extracts university course data from transcripts.
+  Extract a list of courses.
+
+  Rules:
+  1. Convert semester to format "YYY-S" (e.g. 111/1 or 111上 becomes 111-1).
+  2. Extract course name strictly.
+  3. Extract credits (number).
+  4. Extract grade. Convert "通過"->"Pass"; keep "抵免" and "免修" as written.
+  4a. Extract the course number (課號, e.g. ACCT3021) into "code" when present.
+  5. Filter out courses with 0 credits unless they are Service Learning (服務學習).
+  6. Return purely JSON.
+`;
+
+const userPrompt = (input: ExtractionInput) =>
+  input.kind === 'file'
+    ? 'Analyze this transcript document and extract the course history table.'
+    : `Analyze the following transcript text:\n${input.text}`;
+
+// Models wrap JSON in code fences or an object more often than not; accept both
+const parseCourseJson = (text: string): ExtractedCourse[] => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const data = JSON.parse(cleaned || '[]');
+  const list = Array.isArray(data) ? data : data && Array.isArray(data.courses) ? data.courses : null;
+  if (!list) throw new Error('Unexpected response shape');
+  return list.map((item: any) => ({
+    semester: String(item.semester || ''),
+    code: item.code ? String(item.code) : undefined,
+    name: String(item.name || ''),
+    credits: Number(item.credits) || 0,
+    grade: String(item.grade || ''),
+  }));
+};
+
+export const createGeminiProvider = (model: string, apiKey: string): ExtractionProvider => ({
+  kind: 'gemini',
+  extract: async (input) => {
+    const ai = new GoogleGenAI({ apiKey: apiKey || process.env.API_KEY });
+    const parts = input.kind === 'file'
+      ? [{ inlineData: { data: input.data, mimeType: input.mimeType } }, { text: userPrompt(input) }]
+      : [{ text: userPrompt(input) }];
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts },
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              semester: { type: Type.STRING },
+              code: { type: Type.STRING },
+              name: { type: Type.STRING },
+              credits: { type: Type.NUMBER },
+              grade: { type: Type.STRING },
+            },
+            required: ['semester', 'name', 'credits', 'grade'],
+          },
+        },
+      },
+    });
+
+    return parseCourseJson(response.text || '[]');
+  },
+});
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama, LM Studio, vLLM...
+export const createOpenAICompatibleProvider = (
+  baseUrl: string,
+  model: string,
+  apiKey: string,
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): ExtractionProvider => ({
+  kind: 'openai',
+  extract: async (input) => {
+    const content = input.kind === 'file'
+      ? [
+          { type: 'text', text: userPrompt(input) },
+          { type: 'image_url', image_url: { url: `data:${input.mimeType};base64,${input.data}` } },
+        ]
+      : userPrompt(input);
+
+    const response = await fetchImpl(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: `${SYSTEM_INSTRUCTION}\n  Respond with {"courses": [{"semester", "code", "name", "credits", "grade"}]}.` },
+          { role: 'user', content },
+        ],
+      }),
+    });
+    if (!response.ok) throw new Error(`Extraction request failed (${response.status})`);
+
+    const data = await response.json();
+    return parseCourseJson(data?.choices?.[0]?.message?.content || '[]');
+  },
+});
+
+export const MOCK_COURSES: ExtractedCourse[] = [
+  { semester: '111-1', code: 'ACCT1001', name: '會計學原理上', credits: 3, grade: 'A' },
+  { semester: '111-1', code: 'MATH4006', name: '微積分上', credits: 3, grade: 'B+' },
+  { semester: '111-1', code: 'CHIN1001', name: '大學國文', credits: 3, grade: 'A-' },
+  { semester: '111-2', code: 'ECON1001', name: '經濟學原理', credits: 3, grade: '通過' },
+  { semester: '111-2', name: '桌球初級', credits: 0, grade: 'A+' },
+];
+
+// Deterministic provider for development and tests: no network, same courses every time
+export const createMockProvider = (courses: ExtractedCourse[] = MOCK_COURSES): ExtractionProvider => ({
+  kind: 'mock',
+  extract: async () => courses.map((c) => ({ ...c })),
+});
+
+export const createExtractionProvider = (settings: ExtractionSettings): ExtractionProvider => {
+  const model = settings.model.trim() || DEFAULT_MODELS[settings.provider];
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.baseUrl.trim(), model, settings.apiKey.trim());
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(model, settings.apiKey.trim());
+  }
+};
+
+// A transcript row ready for review, whichever path read it
+export type ExtractedRow = Omit<TranscriptRow, 'line'>;
+
+export interface TranscriptExtraction {
+  source: 'offline' | 'ai';
+  rows: ExtractedRow[];
+  skippedLines: TranscriptParseResult['skippedLines'];
+}
+
+// Pasted text is parsed offline first; files, and text the parser finds no rows in, go to the provider.
+// Provider errors (network, unreadable JSON) are passed on to the caller.
+export const extractTranscript = async (input: ExtractionInput, provider: ExtractionProvider): Promise<TranscriptExtraction> => {
+  if (input.kind === 'text') {
+    const offline = parseTranscriptText(input.text);
+    if (offline.rows.length > 0) return { source: 'offline', rows: offline.rows, skippedLines: offline.skippedLines };
+  }
+
+  const data = await provider.extract(input);
+  if (data.length === 0) throw new Error('No courses found');
+
+  return {
+    source: 'ai',
+    rows: data.map((item) => ({
+      semester: item.semester || '111-1',
+      code: item.code || undefined,
+      name: item.name || 'Unknown Course',
+      credits: Number(item.credits) || 0,
+      grade: mapGrade(item.grade),
+      isCurrent: false, // Models are not asked about in-progress courses
+      source: creditSourceFromGrade(item.grade || ''),
+    })),
+    skippedLines: [],
+  };
+};
+
+export const loadExtractionSettings = (): ExtractionSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw);
+      if (saved && saved.provider in DEFAULT_MODELS) {
+        return { ...DEFAULT_EXTRACTION_SETTINGS, ...saved };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to read extraction settings:', error);
+  }
+  return DEFAULT_EXTRACTION_SETTINGS;
+};
+
+export const saveExtractionSettings = (settings: ExtractionSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save extraction settings:', error);
+  }
+};
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LEGACY_BASKET_ID, loadLegacyDocument, markLegacyImport, SHARED_PANTRY_ID } from './storage';
+import { course } from '../utils/__fixtures__/courses';
+
+const LEGACY_URL = `https://getpantry.cloud/apiv1/pantry/${SHARED_PANTRY_ID}/basket/${LEGACY_BASKET_ID}`;
+
+// Pantry answering every request the same way; `fetch` is what the code under test gets
+const respondWith = (body: unknown, status = 200) => {
+  const calls = vi.fn(async (_input: RequestInfo | URL) => new Response(typeof body === 'string' ? body : JSON.stringify(body), { status }));
+  return Object.assign(calls, { fetch: calls as unknown as typeof fetch });
+};
+
+describe('loadLegacyDocument', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('offers the courses in the old shared basket until the offer is answered', async () => {
+    const fetchImpl = respondWith({ courses: [course('a'), course('b')] });
+
+    expect((await loadLegacyDocument(fetchImpl.fetch))?.courses.map((c) => c.id)).toEqual(['a', 'b']);
+    expect(fetchImpl.mock.calls.map(([url]) => String(url))).toEqual([LEGACY_URL]);
+
+    markLegacyImport('declined');
+
+    expect(await loadLegacyDocument(fetchImpl.fetch)).toBeNull();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops reading the shared basket once it is found empty', async () => {
+    const fetchImpl = respondWith('Could not get basket', 400);
+
+    expect(await loadLegacyDocument(fetchImpl.fetch)).toBeNull();
+    expect(await loadLegacyDocument(fetchImpl.fetch)).toBeNull();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks again next time when the read fails', async () => {
+    const fetchImpl = respondWith('down', 500);
+
+    await expect(loadLegacyDocument(fetchImpl.fetch)).rejects.toThrow('Pantry load failed (500)');
+    await expect(loadLegacyDocument(fetchImpl.fetch)).rejects.toThrow();
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores a basket without a course list', async () => {
+    expect(await loadLegacyDocument(respondWith({ notes: 'hi' }).fetch)).toBeNull();
+  });
+});
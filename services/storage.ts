@@ -0,0 +1,206 @@
+import { Course, RuleSetRef } from '../types';
+import { CourseTableView, parseCourseTableView } from '../utils/courseQuery';
+
+// What gets persisted for one user: the course list and the rule sets it was evaluated against
+export interface CourseDocument {
+  courses: Course[];
+  ruleSet?: RuleSetRef;
+  programs?: RuleSetRef[]; // Secondary programs (雙主修 / 輔系) on top of ruleSet
+  revision?: number;     // Remote revision counter; the local copy keeps the revision it is based on
+  updatedAt?: string;    // ISO timestamp of the save that produced `revision`
+  pendingSync?: boolean; // Local copy only: has edits not yet pushed to the remote
+}
+
+export interface StorageBackend {
+  // Resolves to null when nothing has been stored yet
+  load: () => Promise<CourseDocument | null>;
+  save: (doc: CourseDocument) => Promise<void>;
+}
+
+export interface StorageSettings {
+  remoteEnabled: boolean;
+  pantryId: string;
+  basketId: string;
+  cohortOptIn: boolean; // Publish a GPA summary to compare against the entry-year cohort (see COHORT_RANKING_AVAILABLE)
+}
+
+const DATA_KEY = 'ntu-credit-calculator:courses';
+const SETTINGS_KEY = 'ntu-credit-calculator:storage-settings';
+const TABLE_VIEW_KEY = 'ntu-credit-calculator:course-table-view';
+
+// Public pantry the app used to share between everyone. Pantry lists every basket name in a pantry
+// (GET /apiv1/pantry/{id}), so anyone could read every basket in it; remote sync needs the user's own pantry.
+export const SHARED_PANTRY_ID = '7221a69a-c255-469e-86bf-7c36ba6f90f6';
+
+export const isSharedPantry = (pantryId: string) => pantryId.trim() === SHARED_PANTRY_ID;
+
+// Basket in the shared pantry that every user saved to before per-user storage. It is read once per browser,
+// to offer importing it, and never written to.
+export const LEGACY_BASKET_ID = 'ntu-accounting-courses';
+const LEGACY_IMPORT_KEY = 'ntu-credit-calculator:legacy-import';
+
+export type LegacyImportOutcome = 'imported' | 'declined' | 'empty';
+
+export const generateBasketId = () => {
+  const random = typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : Math.random().toString(36).substring(2) + Date.now().toString(36);
+  return `ntu-courses-${random.replace(/-/g, '').slice(0, 12)}`;
+};
+
+const parseDocument = (data: unknown): CourseDocument | null => {
+  if (typeof data !== 'object' || data === null) return null;
+  const doc = data as Record<string, unknown>;
+  if (!Array.isArray(doc.courses)) return null;
+  return {
+    courses: doc.courses,
+    ruleSet: typeof doc.ruleSet === 'object' && doc.ruleSet !== null ? (doc.ruleSet as RuleSetRef) : undefined,
+    programs: Array.isArray(doc.programs) ? doc.programs : undefined,
+    revision: typeof doc.revision === 'number' ? doc.revision : 0,
+    updatedAt: typeof doc.updatedAt === 'string' ? doc.updatedAt : undefined,
+    pendingSync: doc.pendingSync === true,
+  };
+};
+
+// Raw JSON persistence under one key. Shared by the course document and the cohort dataset.
+export interface JsonStore {
+  // Resolves to null when nothing has been stored yet
+  load: () => Promise<unknown | null>;
+  save: (data: unknown) => Promise<void>;
+}
+
+export const createLocalJsonStore = (key: string): JsonStore => ({
+  load: async () => {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  },
+  save: async (data) => {
+    localStorage.setItem(key, JSON.stringify(data));
+  },
+});
+
+// In-memory store for tests and offline demos; nothing leaves the page
+export const createMemoryJsonStore = (initial: unknown = null): JsonStore => {
+  let data = initial === null ? null : JSON.parse(JSON.stringify(initial));
+  return {
+    load: async () => (data === null ? null : JSON.parse(JSON.stringify(data))),
+    save: async (next) => {
+      data = JSON.parse(JSON.stringify(next));
+    },
+  };
+};
+
+export const createPantryJsonStore = (
+  pantryId: string,
+  basketId: string,
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): JsonStore => {
+  const url = `https://getpantry.cloud/apiv1/pantry/${encodeURIComponent(pantryId)}/basket/${encodeURIComponent(basketId)}`;
+
+  return {
+    load: async () => {
+      const response = await fetchImpl(url);
+      // If 404/400, it usually means the basket doesn't exist yet, which is fine for a new user
+      if (response.status === 400 || response.status === 404) return null;
+      if (!response.ok) throw new Error(`Pantry load failed (${response.status})`);
+      return response.json();
+    },
+    save: async (data) => {
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) throw new Error(`Pantry save failed (${response.status})`);
+    },
+  };
+};
+
+const toDocumentBackend = (store: JsonStore): StorageBackend => ({
+  load: async () => parseDocument(await store.load()),
+  save: (doc) => store.save(doc),
+});
+
+// Default backend: the browser's localStorage, available offline
+export const createLocalStorageBackend = (key: string = DATA_KEY): StorageBackend =>
+  toDocumentBackend(createLocalJsonStore(key));
+
+// Optional remote backend: one Pantry basket per user
+export const createPantryBackend = (
+  pantryId: string,
+  basketId: string,
+  fetchImpl?: typeof fetch
+): StorageBackend => toDocumentBackend(createPantryJsonStore(pantryId, basketId, fetchImpl));
+
+// The document left in the legacy shared basket, until this browser has answered the import offer.
+// An empty or missing basket counts as answered, so the shared pantry is not read again.
+export const loadLegacyDocument = async (fetchImpl?: typeof fetch): Promise<CourseDocument | null> => {
+  if (localStorage.getItem(LEGACY_IMPORT_KEY)) return null;
+  const doc = await createPantryBackend(SHARED_PANTRY_ID, LEGACY_BASKET_ID, fetchImpl).load();
+  if (doc && doc.courses.length > 0) return doc;
+  markLegacyImport('empty');
+  return null;
+};
+
+export const markLegacyImport = (outcome: LegacyImportOutcome) => {
+  try {
+    localStorage.setItem(LEGACY_IMPORT_KEY, outcome);
+  } catch (error) {
+    console.error('Failed to save legacy import state:', error);
+  }
+};
+
+export const loadStorageSettings = (): StorageSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw);
+      if (saved && typeof saved.basketId === 'string' && saved.basketId) {
+        // Settings saved against the shared pantry come back with remote sync off; the local copy is kept
+        const pantryId = typeof saved.pantryId === 'string' && !isSharedPantry(saved.pantryId) ? saved.pantryId : '';
+        return {
+          remoteEnabled: !!saved.remoteEnabled && !!pantryId,
+          pantryId,
+          basketId: saved.basketId,
+          cohortOptIn: !!saved.cohortOptIn,
+        };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to read storage settings:', error);
+  }
+
+  // First visit: give this browser its own basket id, remote sync off until the user enters their own pantry
+  const settings = { remoteEnabled: false, pantryId: '', basketId: generateBasketId(), cohortOptIn: false };
+  saveStorageSettings(settings);
+  return settings;
+};
+
+export const saveStorageSettings = (settings: StorageSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save storage settings:', error);
+  }
+};
+
+// Course list filters, grouping and sort order; kept in this browser only, never synced
+export const loadCourseTableView = (): CourseTableView => {
+  try {
+    const raw = localStorage.getItem(TABLE_VIEW_KEY);
+    if (raw) return parseCourseTableView(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to read course table view:', error);
+  }
+  return parseCourseTableView(null);
+};
+
+export const saveCourseTableView = (view: CourseTableView) => {
+  try {
+    localStorage.setItem(TABLE_VIEW_KEY, JSON.stringify(view));
+  } catch (error) {
+    console.error('Failed to save course table view:', error);
+  }
+};
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { createPantryBackend, CourseDocument } from './storage';
+import { saveWithConflictCheck } from './sync';
+import { diffCourseLists, mergeCourseLists } from '../utils/courseDiff';
+import { course } from '../utils/__fixtures__/courses';
+
+// Local stand-in for the Pantry basket API: GET returns the stored JSON (400 when the basket does
+// not exist, like Pantry does), POST replaces it
+const createMockPantry = (initial?: CourseDocument, missingStatus = 400) => {
+  let basket: unknown = initial ? JSON.parse(JSON.stringify(initial)) : null;
+  const requests: { method: string; url: string }[] = [];
+
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const method = init?.method || 'GET';
+    requests.push({ method, url: String(input) });
+    if (method === 'POST') {
+      basket = JSON.parse(String(init!.body));
+      return new Response(`Your Pantry was updated with basket`, { status: 200 });
+    }
+    if (basket === null) return new Response('Could not get basket', { status: missingStatus });
+    return new Response(JSON.stringify(basket), { status: 200 });
+  }) as typeof fetch;
+
+  return {
+    backend: createPantryBackend('pantry-1', 'basket-1', fetchImpl),
+    requests,
+    stored: () => basket as CourseDocument | null,
+  };
+};
+
+describe('saveWithConflictCheck', () => {
+  it('saves to an empty basket as revision 1', async () => {
+    const pantry = createMockPantry();
+    const result = await saveWithConflictCheck(pantry.backend, { courses: [course('a')] }, 0);
+
+    expect(result.status).toBe('saved');
+    expect(pantry.stored()?.revision).toBe(1);
+    expect(pantry.stored()?.courses.map((c) => c.id)).toEqual(['a']);
+    expect(pantry.requests.map((r) => r.method)).toEqual(['GET', 'POST']);
+    expect(pantry.requests[0].url).toBe('https://getpantry.cloud/apiv1/pantry/pantry-1/basket/basket-1');
+  });
+
+  it('treats a 404 basket as empty', async () => {
+    const pantry = createMockPantry(undefined, 404);
+    const result = await saveWithConflictCheck(pantry.backend, { courses: [course('a')] }, 0);
+
+    expect(result.status).toBe('saved');
+    expect(pantry.stored()?.revision).toBe(1);
+  });
+
+  it('saves over a remote that is still at the base revision', async () => {
+    const pantry = createMockPantry({ courses: [course('a')], revision: 3 });
+    const result = await saveWithConflictCheck(pantry.backend, { courses: [course('a'), course('b')] }, 3);
+
+    expect(result.status).toBe('saved');
+    expect(pantry.stored()?.revision).toBe(4);
+    expect(pantry.stored()?.courses).toHaveLength(2);
+  });
+
+  it('reports a conflict and leaves the remote alone when it moved ahead', async () => {
+    const remote = { courses: [course('a', { grade: 'B' })], revision: 5 };
+    const pantry = createMockPantry(remote);
+    const result = await saveWithConflictCheck(pantry.backend, { courses: [course('a')] }, 3);
+
+    expect(result.status).toBe('conflict');
+    if (result.status === 'conflict') expect(result.remote.courses[0].grade).toBe('B');
+    expect(pantry.requests.map((r) => r.method)).toEqual(['GET']);
+    expect(pantry.stored()?.revision).toBe(5);
+  });
+
+  it('saves without a conflict when the newer remote already matches', async () => {
+    const pantry = createMockPantry({ courses: [course('a')], revision: 5 });
+    const result = await saveWithConflictCheck(pantry.backend, { courses: [course('a')] }, 3);
+
+    expect(result.status).toBe('saved');
+    expect(pantry.stored()?.revision).toBe(6);
+  });
+
+  it('reports a conflict when only the rule set differs', async () => {
+    const pantry = createMockPantry({ courses: [course('a')], ruleSet: { id: 'accounting-112', version: 1 }, revision: 2 });
+    const result = await saveWithConflictCheck(
+      pantry.backend,
+      { courses: [course('a')], ruleSet: { id: 'accounting-111', version: 1 } },
+      1
+    );
+
+    expect(result.status).toBe('conflict');
+  });
+
+  it('fails on other Pantry errors', async () => {
+    const fetchImpl = (async () => new Response('down', { status: 500 })) as typeof fetch;
+    const backend = createPantryBackend('pantry-1', 'basket-1', fetchImpl);
+
+    await expect(saveWithConflictCheck(backend, { courses: [] }, 0)).rejects.toThrow('Pantry load failed (500)');
+  });
+});
+
+describe('diffCourseLists / mergeCourseLists', () => {
+  const local = [course('same'), course('changed', { grade: 'A+' }), course('localOnly')];
+  const remote = [course('same'), course('changed', { grade: 'B' }), course('remoteOnly')];
+
+  it('classifies each course', () => {
+    const diffs = diffCourseLists(local, remote);
+
+    expect(diffs.map((d) => [d.id, d.kind])).toEqual([
+      ['same', 'same'],
+      ['changed', 'changed'],
+      ['localOnly', 'localOnly'],
+      ['remoteOnly', 'remoteOnly'],
+    ]);
+    expect(diffs[1].fields).toEqual(['grade']);
+  });
+
+  it('treats unset and false flags as equal', () => {
+    const diffs = diffCourseLists([course('a', { isCurrent: undefined })], [course('a')]);
+
+    expect(diffs[0].kind).toBe('same');
+  });
+
+  it('keeps the local side by default', () => {
+    const merged = mergeCourseLists(diffCourseLists(local, remote), {});
+
+    expect(merged.map((c) => c.id)).toEqual(['same', 'changed', 'localOnly']);
+    expect(merged[1].grade).toBe('A+');
+  });
+
+  it('applies the chosen side per course; choosing a missing side drops the course', () => {
+    const merged = mergeCourseLists(diffCourseLists(local, remote), {
+      changed: 'remote',
+      localOnly: 'remote',
+      remoteOnly: 'remote',
+    });
+
+    expect(merged.map((c) => c.id)).toEqual(['same', 'changed', 'remoteOnly']);
+    expect(merged[1].grade).toBe('B');
+  });
+});
@@ -0,0 +1,39 @@
+import { CourseDocument, StorageBackend } from './storage';
+import { isSameCourseList } from '../utils/courseDiff';
+
+export type SaveResult =
+  | { status: 'saved'; document: CourseDocument }
+  | { status: 'conflict'; remote: CourseDocument };
+
+const programIds = (doc: CourseDocument) => (doc.programs || []).map((p) => p.id).sort().join(',');
+
+export const isSameDocument = (a: CourseDocument, b: CourseDocument) =>
+  (a.ruleSet?.id ?? null) === (b.ruleSet?.id ?? null) &&
+  programIds(a) === programIds(b) &&
+  isSameCourseList(a.courses, b.courses);
+
+// Push `doc` only if nobody else saved since `baseRevision`. Pantry has no
+// compare-and-swap, so this is read-then-write: it catches other tabs/devices
+// that saved earlier, not two saves landing in the same instant.
+export const saveWithConflictCheck = async (
+  backend: StorageBackend,
+  doc: CourseDocument,
+  baseRevision: number
+): Promise<SaveResult> => {
+  const remote = await backend.load();
+  const remoteRevision = remote?.revision || 0;
+
+  if (remote && remoteRevision > baseRevision && !isSameDocument(remote, doc)) {
+    return { status: 'conflict', remote };
+  }
+
+  const document: CourseDocument = {
+    courses: doc.courses,
+    ruleSet: doc.ruleSet,
+    programs: doc.programs,
+    revision: Math.max(remoteRevision, baseRevision) + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  await backend.save(document);
+  return { status: 'saved', document };
+};
@@ -1,7 +1,13 @@
 export type CourseCategory = '共同必修' | '系訂必修' | '指定選修' | '一般選修' | '通識' | '體育' | '其他';
 
+// 通識 domains (A1–A8)
+export type GenEdDomain = 'A1' | 'A2' | 'A3' | 'A4' | 'A5' | 'A6' | 'A7' | 'A8';
+
 export type Grade = 'A+' | 'A' | 'A-' | 'B+' | 'B' | 'B-' | 'C+' | 'C' | 'C-' | 'F' | 'Pass';
 
+// Where a course's credits come from. Anything but 'taken' is 抵免/免修 and subject to the exemption caps.
+export type CreditSource = 'taken' | 'exempted' | 'transferred' | 'examWaiver';
+
 export interface Course {
   id: string;
   semester: string; // e.g., "112-1"
@@ -10,8 +16,26 @@ export interface Course {
   category: CourseCategory;
   grade: Grade;
   isCurrent?: boolean; // New field for "In Progress" courses
+  isPlanned?: boolean; // Planned for a future semester (what-if); never set together with isCurrent
+  genEdDomain?: GenEdDomain; // Only meaningful for 通識 courses
+  source?: CreditSource;     // Unset means 'taken'
+  sourceInstitution?: string; // School or exam the credits come from (transferred / exempted)
+  approvalRef?: string;       // 抵免 approval number or document reference
 }
 
+export const COURSE_CATEGORIES: CourseCategory[] = ['共同必修', '系訂必修', '指定選修', '一般選修', '通識', '體育', '其他'];
+
+export const CREDIT_SOURCES: CreditSource[] = ['taken', 'exempted', 'transferred', 'examWaiver'];
+
+export const CREDIT_SOURCE_LABELS: Record<CreditSource, string> = {
+  taken: '修習',
+  exempted: '抵免',
+  transferred: '轉學分',
+  examWaiver: '免修/檢定',
+};
+
+export const GRADES: Grade[] = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'F', 'Pass'];
+
 export const GRADE_POINTS: Record<string, number> = {
   'A+': 4.3,
   'A': 4.0,
@@ -26,6 +50,17 @@ export const GRADE_POINTS: Record<string, number> = {
   'Pass': -1, // Special handling
 };
 
+export const GEN_ED_DOMAIN_LABELS: Record<GenEdDomain, string> = {
+  'A1': '文學與藝術',
+  'A2': '歷史思維',
+  'A3': '世界文明',
+  'A4': '哲學與道德思考',
+  'A5': '公民意識與社會分析',
+  'A6': '量化分析與數學素養',
+  'A7': '物質科學',
+  'A8': '生命科學',
+};
+
 export interface GraduationRequirements {
   total: number;
   commonRequired: number;     // 共同必修 (9)
@@ -33,4 +68,111 @@ export interface GraduationRequirements {
   designatedElective: number; // 指定選修 (21)
   generalElective: number;    // 一般選修 (19)
   generalEducation: number;   // 通識 (15)
-}
\ No newline at end of file
+}
+
+// One graduation bucket (every key of GraduationRequirements except the total)
+export type RequirementKey = Exclude<keyof GraduationRequirements, 'total'>;
+
+// Where credits above a bucket's target spill to, e.g. { generalEducation: 'generalElective' }.
+// Buckets without a rule are not capped.
+export type OverflowRules = Partial<Record<RequirementKey, RequirementKey>>;
+
+// A specific course listed under 系訂必修 (e.g. 審計學).
+// A student's course matches if its name equals or starts with `name` or one of `aliases`,
+// so split courses such as 中級會計學上/下 add up towards the same requirement.
+export interface RequiredCourse {
+  name: string;
+  credits: number;
+  aliases?: string[];
+}
+
+// A course that must follow others: every course in `requires` (matched by name like RequiredCourse)
+// has to be passed, or at least scheduled, in an earlier semester
+export interface Prerequisite {
+  course: string;
+  requires: string[];
+}
+
+// A course offering known to the app. `categories` says how it counts for each program,
+// keyed by curriculum id ("accounting-111"), department id ("accounting") or "*" for everyone.
+export interface CatalogCourse {
+  code: string;        // 課號, e.g. "ACCT3021"
+  name: string;
+  nameEn: string;
+  credits: number;     // Per semester offering
+  aliases?: string[];
+  categories: Partial<Record<string, CourseCategory>>;
+}
+
+// 通識 domain coverage: at least `minDomains` distinct domains,
+// each with at least `minCreditsPerDomain` credits
+export interface GenEdDomainRequirement {
+  minDomains: number;
+  minCreditsPerDomain: number;
+}
+
+// Per-semester credit load limits (修課學分上下限); summer terms are exempt
+export interface CreditLoadLimits {
+  min: number;
+  max: number;
+}
+
+// 抵免 limits: credits from every source other than 'taken' add up to at most `maxCredits`,
+// and only fill the listed buckets (others count nothing)
+export interface ExemptionRules {
+  maxCredits: number;
+  allowedBuckets: RequirementKey[];
+}
+
+// A versioned graduation rule set for one department and entry year (入學學年度)
+export interface CurriculumRuleSet {
+  id: string;              // e.g. "accounting-111"
+  version: number;         // Bumped whenever the rule data is corrected
+  departmentId: string;    // e.g. "accounting", shared by every entry year of a department
+  department: string;      // e.g. "會計學系"
+  departmentEn: string;    // e.g. "Department of Accounting"
+  entryYear: number;       // ROC academic year, e.g. 111
+  requirements: GraduationRequirements;
+  overflowRules?: OverflowRules;
+  requiredCourses?: RequiredCourse[];
+  genEdDomains?: GenEdDomainRequirement;
+  creditLoad?: CreditLoadLimits;
+  prerequisites?: Prerequisite[];
+  exemptionRules?: ExemptionRules;
+}
+
+// 雙主修 (double major) or 輔系 (minor), taken on top of the primary rule set
+export type ProgramKind = 'doubleMajor' | 'minor';
+
+// A secondary program's requirements. A course counts toward it when it matches `requiredCourses`,
+// `electives`, or is 系訂必修/指定選修 for `departmentId` in the course catalog. Up to `maxSharedCredits`
+// of those credits may also count toward the primary rule set; the rest are extra credits on top of it.
+export interface SecondaryProgram {
+  id: string;              // e.g. "finance-minor"
+  version: number;
+  kind: ProgramKind;
+  departmentId: string;    // e.g. "finance"
+  department: string;
+  departmentEn: string;
+  requiredCredits: number;
+  maxSharedCredits: number;
+  requiredCourses?: RequiredCourse[];
+  electives?: string[];    // Extra course names that count, matched like RequiredCourse
+}
+
+// A named GPA variant, e.g. for a scholarship or an application form.
+// Filters combine: only completed, graded courses in `categories`, within the most recent semesters.
+export interface GpaDefinition {
+  id: string;
+  name: string;                    // e.g. "主修 GPA"
+  nameEn: string;                  // e.g. "Major GPA"
+  categories?: CourseCategory[];   // Omit for every category
+  lastCredits?: number;            // Most recent whole semesters until at least this many graded credits
+  lastSemesters?: number;          // Most recent regular semesters (summer terms in between are included)
+}
+
+// Which rule set a saved course list was evaluated against
+export interface RuleSetRef {
+  id: string;
+  version: number;
+}
@@ -0,0 +1,13 @@
+import { Course } from '../../types';
+
+// A completed, graded 系訂必修 course; tests override only the fields they care about
+export const course = (id: string, overrides: Partial<Course> = {}): Course => ({
+  id,
+  semester: '111-1',
+  name: `課程${id}`,
+  credits: 3,
+  category: '系訂必修',
+  grade: 'A',
+  isCurrent: false,
+  ...overrides,
+});
@@ -0,0 +1,120 @@
+import { Course, CourseCategory, GraduationRequirements, OverflowRules, RequirementKey } from '../types';
+import { getCreditBearingCourses } from './retakes';
+
+export const REQUIREMENT_KEYS: RequirementKey[] = [
+  'commonRequired',
+  'deptRequired',
+  'designatedElective',
+  'generalElective',
+  'generalEducation',
+];
+
+export const REQUIREMENT_LABELS: Record<RequirementKey, string> = {
+  commonRequired: '共同必修',
+  deptRequired: '系訂必修',
+  designatedElective: '指定選修',
+  generalElective: '一般選修',
+  generalEducation: '通識',
+};
+
+export const REQUIREMENT_LABELS_EN: Record<RequirementKey, string> = {
+  commonRequired: 'Common Required',
+  deptRequired: 'Dept Required',
+  designatedElective: 'Designated Elective',
+  generalElective: 'General Elective',
+  generalEducation: 'General Education',
+};
+
+// Which bucket a course category fills. PE (體育) does not count toward graduation credits.
+export const categoryToRequirementKey = (category: CourseCategory): RequirementKey | null => {
+  switch (category) {
+    case '體育': return null;
+    case '共同必修': return 'commonRequired';
+    case '系訂必修': return 'deptRequired';
+    case '指定選修': return 'designatedElective';
+    case '通識': return 'generalEducation';
+    default: return 'generalElective'; // 一般選修, 其他 or unknown
+  }
+};
+
+// earned: completed; projected: in progress this semester; planned: future semesters (what-if)
+export interface CreditLayers {
+  earned: number;
+  projected: number;
+  planned: number;
+}
+
+const LAYERS: (keyof CreditLayers)[] = ['earned', 'projected', 'planned'];
+
+export interface BucketAllocation extends CreditLayers {
+  // earned/projected/planned above are what the bucket counts after capping, including spilledIn
+  spilledIn: CreditLayers;
+  spilledOut: CreditLayers;
+  spillTarget?: RequirementKey;
+}
+
+export interface CreditAllocation {
+  total: CreditLayers;
+  buckets: Record<RequirementKey, BucketAllocation>;
+}
+
+export const emptyLayers = (): CreditLayers => ({ earned: 0, projected: 0, planned: 0 });
+
+export const layerOf = (course: Course): keyof CreditLayers =>
+  course.isPlanned ? 'planned' : course.isCurrent ? 'projected' : 'earned';
+
+// Sum credits per bucket (failed and repeated attempts earn nothing), then cap every bucket that has an overflow rule and move
+// the excess to its fallback bucket. Earned credits fill a bucket before in-progress ones, and those before planned ones.
+export const allocateCredits = (
+  courses: Course[],
+  requirements: GraduationRequirements,
+  overflowRules: OverflowRules = {}
+): CreditAllocation => {
+  const own = {} as Record<RequirementKey, CreditLayers>;
+  REQUIREMENT_KEYS.forEach((key) => { own[key] = emptyLayers(); });
+
+  const total = emptyLayers();
+  getCreditBearingCourses(courses).forEach((course) => {
+    const key = categoryToRequirementKey(course.category);
+    if (!key) return;
+    const layer = layerOf(course);
+    own[key][layer] += course.credits;
+    total[layer] += course.credits;
+  });
+
+  const buckets = {} as Record<RequirementKey, BucketAllocation>;
+  REQUIREMENT_KEYS.forEach((key) => {
+    buckets[key] = { ...own[key], spilledIn: emptyLayers(), spilledOut: emptyLayers(), spillTarget: overflowRules[key] };
+  });
+
+  // Re-run until spills settle; an acyclic rule chain settles within one pass per bucket
+  for (let pass = 0; pass <= REQUIREMENT_KEYS.length; pass++) {
+    const incoming = {} as Record<RequirementKey, CreditLayers>;
+    REQUIREMENT_KEYS.forEach((key) => { incoming[key] = emptyLayers(); });
+
+    REQUIREMENT_KEYS.forEach((key) => {
+      const bucket = buckets[key];
+      const target = overflowRules[key];
+      const max = !target || target === key ? Infinity : requirements[key];
+
+      // Fill layer by layer up to the cap; whatever does not fit spills to the target
+      let room = max;
+      bucket.spilledOut = emptyLayers();
+      LAYERS.forEach((layer) => {
+        const available = own[key][layer] + bucket.spilledIn[layer];
+        bucket[layer] = Math.min(available, room);
+        room -= bucket[layer];
+        bucket.spilledOut[layer] = available - bucket[layer];
+        if (target && target !== key) incoming[target][layer] += bucket.spilledOut[layer];
+      });
+    });
+
+    const settled = REQUIREMENT_KEYS.every((key) =>
+      LAYERS.every((layer) => incoming[key][layer] === buckets[key].spilledIn[layer])
+    );
+    if (settled) break;
+    REQUIREMENT_KEYS.forEach((key) => { buckets[key].spilledIn = incoming[key]; });
+  }
+
+  return { total, buckets };
+};
@@ -0,0 +1,76 @@
+import { Course, CurriculumRuleSet, RequirementKey, SecondaryProgram } from '../types';
+import { allocateCredits, BucketAllocation, categoryToRequirementKey, REQUIREMENT_KEYS } from './allocation';
+import { applyExemptionRules, ExemptionCheck } from './exemptions';
+import { checkGenEdDomains, GenEdDomainCheck } from './genEd';
+import { getGpaCourses, sumGradePoints, toGpa } from './gpa';
+import { forecastGraduation, GraduationForecast } from './planner';
+import { evaluatePrograms, ProgramProgress } from './programs';
+import { checkRequiredCourses, RequiredCourseCheck } from './requiredCourses';
+import { getCreditBearingCourses } from './retakes';
+import { compareSemesters } from './semester';
+
+export interface AuditBucket {
+  key: RequirementKey;
+  required: number;
+  allocation: BucketAllocation;
+  courses: Course[];  // Credit-bearing courses whose category fills this bucket, oldest first
+  missing: number;    // Still to take once completed and in-progress credits are counted
+}
+
+export interface AuditReport {
+  generatedAt: Date;
+  curriculum: CurriculumRuleSet;
+  total: { required: number; earned: number; projected: number; planned: number; missing: number };
+  buckets: AuditBucket[];
+  requiredCourses: RequiredCourseCheck[];
+  genEd: GenEdDomainCheck | null;
+  gpa: { current: number; projected: number };
+  forecast: GraduationForecast;
+  programs: ProgramProgress[];
+  exemptions: ExemptionCheck;
+}
+
+// Everything the one-page audit shows, from the same helpers as the summary card and checklist
+export const buildAuditReport = (
+  courses: Course[],
+  curriculum: CurriculumRuleSet,
+  secondaryPrograms: SecondaryProgram[] = [],
+  generatedAt = new Date()
+): AuditReport => {
+  const { requirements, overflowRules } = curriculum;
+  const exemptions = applyExemptionRules(courses, curriculum.exemptionRules);
+  // Program-only credits of a double major / minor are left out of the primary buckets
+  const { primaryCourses, programs } = evaluatePrograms(exemptions.courses, secondaryPrograms);
+  const { total, buckets } = allocateCredits(primaryCourses, requirements, overflowRules);
+  const creditBearing = getCreditBearingCourses(primaryCourses)
+    .slice()
+    .sort((a, b) => compareSemesters(a.semester, b.semester));
+
+  const gpaCourses = getGpaCourses(courses).filter((c) => !c.isPlanned);
+
+  return {
+    generatedAt,
+    curriculum,
+    total: {
+      required: requirements.total,
+      ...total,
+      missing: Math.max(requirements.total - total.earned - total.projected, 0),
+    },
+    buckets: REQUIREMENT_KEYS.map((key) => ({
+      key,
+      required: requirements[key],
+      allocation: buckets[key],
+      courses: creditBearing.filter((c) => categoryToRequirementKey(c.category) === key),
+      missing: Math.max(requirements[key] - buckets[key].earned - buckets[key].projected, 0),
+    })),
+    requiredCourses: checkRequiredCourses(curriculum.requiredCourses || [], courses),
+    genEd: curriculum.genEdDomains ? checkGenEdDomains(courses, curriculum.genEdDomains) : null,
+    gpa: {
+      current: toGpa(sumGradePoints(gpaCourses.filter((c) => !c.isCurrent))),
+      projected: toGpa(sumGradePoints(gpaCourses)),
+    },
+    forecast: forecastGraduation(primaryCourses, requirements, overflowRules),
+    programs,
+    exemptions,
+  };
+};
@@ -0,0 +1,60 @@
+import { CatalogCourse, CourseCategory, CurriculumRuleSet } from '../types';
+import { COURSE_CATALOG } from '../data/courseCatalog';
+import { catalogCategoryFor } from './categoryClassifier';
+import { matchesCourseName, normalizeCourseName } from './courseName';
+
+export interface CatalogMatch {
+  entry: CatalogCourse;
+  category?: CourseCategory; // How the course counts for the active curriculum, if the catalog says
+  score: number;
+}
+
+// Every character of `query` appears in `text` in order ("中會" → "中級會計學")
+const isSubsequence = (query: string, text: string) => {
+  let i = 0;
+  for (const ch of text) {
+    if (ch === query[i]) i++;
+    if (i === query.length) return true;
+  }
+  return false;
+};
+
+const scoreText = (query: string, text: string) => {
+  if (text === query) return 100;
+  if (text.startsWith(query)) return 80;
+  if (text.includes(query)) return 60;
+  if (isSubsequence(query, text)) return 30;
+  return 0;
+};
+
+// Best score over the course number, Chinese and English names and aliases
+const scoreEntry = (query: string, entry: CatalogCourse) =>
+  Math.max(
+    scoreText(query, entry.code.toLowerCase()),
+    ...[entry.name, entry.nameEn, ...(entry.aliases || [])].map((n) => scoreText(query, normalizeCourseName(n)))
+  );
+
+// Fuzzy catalog lookup, best matches first. Courses that count for the curriculum rank above those that do not.
+export const searchCatalog = (
+  query: string,
+  curriculum: CurriculumRuleSet,
+  limit = 8,
+  catalog: CatalogCourse[] = COURSE_CATALOG
+): CatalogMatch[] => {
+  const normalized = normalizeCourseName(query);
+  if (!normalized) return [];
+
+  return catalog
+    .map((entry) => {
+      const category = catalogCategoryFor(entry, curriculum);
+      const score = scoreEntry(normalized, entry);
+      return { entry, category, score: score > 0 && category ? score + 5 : score };
+    })
+    .filter((m) => m.score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.code.localeCompare(b.entry.code))
+    .slice(0, limit);
+};
+
+// The catalog entry a course name refers to, by its name or an alias (split suffixes such as 上/下 allowed)
+export const findCatalogEntry = (name: string, catalog: CatalogCourse[] = COURSE_CATALOG): CatalogCourse | undefined =>
+  catalog.find((entry) => matchesCourseName(name, [entry.name, ...(entry.aliases || [])]));
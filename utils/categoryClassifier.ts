@@ -0,0 +1,68 @@
+import { CatalogCourse, Course, CourseCategory, CurriculumRuleSet } from '../types';
+import { COURSE_CATALOG } from '../data/courseCatalog';
+import { normalizeCourseName } from './courseName';
+
+export type SuggestionConfidence = 'high' | 'medium' | 'low';
+
+export interface CategorySuggestion {
+  category: CourseCategory;
+  confidence: SuggestionConfidence;
+  reason: string; // Shown to the user next to low/medium rows
+}
+
+export type CategoryClassifier = (name: string, code?: string) => CategorySuggestion;
+
+const PE_NAME = /體育|體適能|桌球|羽球|籃球|排球|網球|游泳|壘球|足球|瑜珈|有氧|舞蹈/;
+
+// How a catalog course counts for the given curriculum, most specific key first
+export const catalogCategoryFor = (entry: CatalogCourse, curriculum: CurriculumRuleSet): CourseCategory | undefined =>
+  entry.categories[curriculum.id] ?? entry.categories[curriculum.departmentId] ?? entry.categories['*'];
+
+// Build a classifier for the active curriculum. Sources, strongest first:
+// 1. categories the user already gave a course with the same name,
+// 2. the course catalog by course number, then by name or alias,
+// 3. the curriculum's named 系訂必修 list,
+// 4. name patterns (PE), else 一般選修 flagged for review.
+export const createCategoryClassifier = (curriculum: CurriculumRuleSet, existingCourses: Course[]): CategoryClassifier => {
+  const learned = new Map<string, CourseCategory>();
+  existingCourses.forEach((c) => learned.set(normalizeCourseName(c.name), c.category));
+
+  const catalog = COURSE_CATALOG
+    .map((entry) => ({ entry, category: catalogCategoryFor(entry, curriculum) }))
+    .filter((item): item is { entry: CatalogCourse; category: CourseCategory } => !!item.category);
+
+  const required = (curriculum.requiredCourses || []).flatMap((r) => [r.name, ...(r.aliases || [])].map(normalizeCourseName));
+
+  return (name, code) => {
+    const normalized = normalizeCourseName(name);
+    const normalizedCode = code ? code.replace(/\s/g, '').toUpperCase() : '';
+
+    const previous = learned.get(normalized);
+    if (previous) {
+      return { category: previous, confidence: 'high', reason: '依您先前的分類 (from your courses)' };
+    }
+
+    if (normalizedCode) {
+      const byCode = catalog.find(({ entry }) => entry.code === normalizedCode);
+      if (byCode) return { category: byCode.category, confidence: 'high', reason: `課號 ${byCode.entry.code}` };
+    }
+
+    const names = (entry: CatalogCourse) => [entry.name, ...(entry.aliases || [])].map(normalizeCourseName);
+    const exact = catalog.find(({ entry }) => names(entry).includes(normalized));
+    if (exact) return { category: exact.category, confidence: 'high', reason: `課程目錄：${exact.entry.name}` };
+
+    // Split courses (上/下, (一)/(二)) share the catalog name as a prefix
+    const prefix = catalog.find(({ entry }) => names(entry).some((n) => normalized.startsWith(n)));
+    if (prefix) return { category: prefix.category, confidence: 'medium', reason: `近似課程：${prefix.entry.name}` };
+
+    if (required.some((n) => normalized.startsWith(n))) {
+      return { category: '系訂必修', confidence: 'medium', reason: '系訂必修清單' };
+    }
+
+    if (PE_NAME.test(name) || normalizedCode.startsWith('PE')) {
+      return { category: '體育', confidence: 'medium', reason: '體育課程名稱' };
+    }
+
+    return { category: '一般選修', confidence: 'low', reason: '無法判斷，請確認' };
+  };
+};
@@ -0,0 +1,59 @@
+import { Course } from '../types';
+
+// same:       identical in both copies
+// changed:    same course id, different field values
+// localOnly:  added locally or deleted remotely
+// remoteOnly: added remotely or deleted locally
+export type CourseDiffKind = 'same' | 'changed' | 'localOnly' | 'remoteOnly';
+
+export interface CourseDiff {
+  id: string;
+  kind: CourseDiffKind;
+  local?: Course;
+  remote?: Course;
+  fields: (keyof Course)[]; // Fields that differ, for 'changed'
+}
+
+export type MergeChoice = 'local' | 'remote';
+
+const COMPARED_FIELDS: (keyof Course)[] = ['semester', 'name', 'credits', 'category', 'grade', 'isCurrent', 'isPlanned', 'genEdDomain', 'source', 'sourceInstitution', 'approvalRef'];
+
+// Optional flags are treated as equal whether unset or false
+const fieldValue = (course: Course, field: keyof Course) =>
+  field === 'isCurrent' || field === 'isPlanned' ? !!course[field] : (course[field] ?? null);
+
+const differingFields = (a: Course, b: Course) =>
+  COMPARED_FIELDS.filter((field) => fieldValue(a, field) !== fieldValue(b, field));
+
+// Per-course differences between two copies of the same course list, matched by id
+export const diffCourseLists = (local: Course[], remote: Course[]): CourseDiff[] => {
+  const remoteById = new Map(remote.map((c) => [c.id, c]));
+  const localIds = new Set(local.map((c) => c.id));
+
+  const diffs: CourseDiff[] = local.map((l) => {
+    const r = remoteById.get(l.id);
+    if (!r) return { id: l.id, kind: 'localOnly', local: l, fields: [] };
+    const fields = differingFields(l, r);
+    return { id: l.id, kind: fields.length > 0 ? 'changed' : 'same', local: l, remote: r, fields };
+  });
+
+  remote.forEach((r) => {
+    if (!localIds.has(r.id)) diffs.push({ id: r.id, kind: 'remoteOnly', remote: r, fields: [] });
+  });
+
+  return diffs;
+};
+
+export const isSameCourseList = (a: Course[], b: Course[]) =>
+  diffCourseLists(a, b).every((d) => d.kind === 'same');
+
+// Build the merged list: each diff keeps the side the user picked; a missing side drops the course
+export const mergeCourseLists = (diffs: CourseDiff[], choices: Record<string, MergeChoice>): Course[] => {
+  const merged: Course[] = [];
+  diffs.forEach((d) => {
+    const choice = choices[d.id] || 'local';
+    const picked = choice === 'local' ? d.local : d.remote;
+    if (picked) merged.push(picked);
+  });
+  return merged;
+};
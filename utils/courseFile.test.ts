@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { exportCoursesCsv, exportCoursesJson, mergeImportedCourses, parseCoursesCsv, parseCoursesJson } from './courseFile';
+import { course } from './__fixtures__/courses';
+
+describe('mergeImportedCourses', () => {
+  it('does not duplicate courses when re-importing an exported CSV', () => {
+    const existing = [course('a'), course('b', { semester: '111-2' })];
+    const { courses: imported } = parseCoursesCsv(exportCoursesCsv(existing));
+    const merged = mergeImportedCourses(existing, imported);
+
+    expect(merged.map((c) => c.id)).toEqual(['a', 'b']);
+  });
+
+  it('updates a CSV row matched on semester and normalized name, keeping the existing id', () => {
+    const existing = [course('a', { name: '會計學原理 上', grade: 'B' })];
+    const imported = [course('fresh', { name: '會計學原理上', semester: '111 - 1', grade: 'A+' })];
+    const merged = mergeImportedCourses(existing, imported);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ id: 'a', grade: 'A+' });
+  });
+
+  it('matches each existing course once and appends the rest', () => {
+    const existing = [course('a', { name: '體育' })];
+    const imported = [course('x', { name: '體育' }), course('y', { name: '體育' }), course('z', { semester: '112-1' })];
+    const merged = mergeImportedCourses(existing, imported);
+
+    expect(merged.map((c) => c.id)).toEqual(['a', 'y', 'z']);
+  });
+
+  it('replaces by id before matching by name', () => {
+    const existing = [course('a'), course('b', { name: '課程a' })];
+    const merged = mergeImportedCourses(existing, [course('b', { name: '課程a', grade: 'C' })]);
+
+    expect(merged.map((c) => [c.id, c.grade])).toEqual([['a', 'A'], ['b', 'C']]);
+  });
+});
+
+describe('parseCoursesJson', () => {
+  it('returns the rule set recorded in the export', () => {
+    const result = parseCoursesJson(exportCoursesJson([course('a')], { id: 'accounting-112', version: 2 }));
+
+    expect(result.ruleSet).toEqual({ id: 'accounting-112', version: 2 });
+    expect(result.courses.map((c) => c.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,249 @@
+import { Course, CourseCategory, CreditSource, GenEdDomain, Grade, RuleSetRef, COURSE_CATEGORIES, CREDIT_SOURCES, CREDIT_SOURCE_LABELS, GRADES } from '../types';
+import { courseMatchKey } from './courseName';
+import { GEN_ED_DOMAINS } from './genEd';
+
+// Versioned JSON export. Bump EXPORT_VERSION when the course shape changes incompatibly.
+export const EXPORT_FORMAT = 'ntu-graduation-credit-calculator';
+export const EXPORT_VERSION = 1;
+
+export interface CourseExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  ruleSet?: RuleSetRef;
+  courses: Course[];
+}
+
+export interface RowError {
+  row: number;     // 1-based record (CSV: data row after the header; JSON: array index + 1); 0 = whole file
+  message: string;
+}
+
+export interface CourseImportResult {
+  courses: Course[];
+  errors: RowError[];
+  ruleSet?: RuleSetRef;
+}
+
+// Same headings as the CourseTable columns, plus the optional fields
+const CSV_HEADERS = ['學年期', '課程名稱', '學分', '成績', '類別', '修習中', '通識領域', '規劃中', '來源', '來源學校', '核准文號'];
+
+const generateId = () => {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).substring(2) + Date.now().toString(36);
+};
+
+export const exportCoursesJson = (courses: Course[], ruleSet?: RuleSetRef): string => {
+  const data: CourseExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ruleSet,
+    courses,
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportCoursesCsv = (courses: Course[]): string => {
+  const rows = courses.map((c) => [
+    c.semester,
+    c.name,
+    String(c.credits),
+    c.grade,
+    c.category,
+    c.isCurrent ? 'Y' : '',
+    c.genEdDomain || '',
+    c.isPlanned ? 'Y' : '',
+    c.source && c.source !== 'taken' ? CREDIT_SOURCE_LABELS[c.source] : '',
+    c.sourceInstitution || '',
+    c.approvalRef || '',
+  ]);
+  // Leading BOM so Excel opens the Chinese headings as UTF-8
+  return '\uFEFF' + [CSV_HEADERS, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
+
+// Accepts the stored value or its label ("抵免"); empty means taken here
+const parseCreditSource = (raw: string): CreditSource | null | undefined => {
+  if (!raw) return undefined;
+  const source = CREDIT_SOURCES.find((s) => s === raw || CREDIT_SOURCE_LABELS[s] === raw);
+  return source ?? null;
+};
+
+// Check one raw record and turn it into a Course; returns the problems instead when invalid
+const validateCourse = (raw: any, keepId: boolean): { course?: Course; problems: string[] } => {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== 'object') return { problems: ['不是有效的課程物件 (not an object)'] };
+
+  const semester = String(raw.semester ?? '').trim();
+  const name = String(raw.name ?? '').trim();
+  const credits = typeof raw.credits === 'number' ? raw.credits : Number(String(raw.credits ?? '').trim());
+  const grade = String(raw.grade ?? '').trim();
+  const category = String(raw.category ?? '').trim();
+  const domain = String(raw.genEdDomain ?? '').trim().toUpperCase();
+  const rawSource = String(raw.source ?? '').trim();
+  const source = parseCreditSource(rawSource);
+
+  if (!/^\d{2,3}\s*[-/]\s*[123]$/.test(semester)) problems.push(`學年期格式錯誤「${semester}」(expected e.g. 111-1)`);
+  if (!name) problems.push('缺少課程名稱 (missing name)');
+  if (String(raw.credits ?? '').trim() === '' || isNaN(credits) || credits < 0 || credits > 15) {
+    problems.push(`學分須為 0–15 的數字「${raw.credits ?? ''}」`);
+  }
+  if (!GRADES.includes(grade as Grade)) problems.push(`無效的成績「${grade}」`);
+  if (!COURSE_CATEGORIES.includes(category as CourseCategory)) problems.push(`無效的類別「${category}」`);
+  if (domain && !GEN_ED_DOMAINS.includes(domain as GenEdDomain)) problems.push(`無效的通識領域「${domain}」`);
+  if (source === null) problems.push(`無效的學分來源「${rawSource}」`);
+
+  if (problems.length > 0) return { problems };
+
+  return {
+    problems,
+    course: {
+      id: keepId && typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+      semester: semester.replace(/\s/g, '').replace('/', '-'),
+      name,
+      credits,
+      grade: grade as Grade,
+      category: category as CourseCategory,
+      isCurrent: !!raw.isCurrent,
+      isPlanned: !raw.isCurrent && raw.isPlanned ? true : undefined,
+      genEdDomain: category === '通識' && domain ? (domain as GenEdDomain) : undefined,
+      ...(source && source !== 'taken' && {
+        source,
+        sourceInstitution: String(raw.sourceInstitution ?? '').trim() || undefined,
+        approvalRef: String(raw.approvalRef ?? '').trim() || undefined,
+      }),
+    },
+  };
+};
+
+const collect = (records: any[], keepId: boolean): Pick<CourseImportResult, 'courses' | 'errors'> => {
+  const courses: Course[] = [];
+  const errors: RowError[] = [];
+  records.forEach((raw, idx) => {
+    const { course, problems } = validateCourse(raw, keepId);
+    if (course) courses.push(course);
+    problems.forEach((message) => errors.push({ row: idx + 1, message }));
+  });
+  return { courses, errors };
+};
+
+export const parseCoursesJson = (text: string): CourseImportResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { courses: [], errors: [{ row: 0, message: 'JSON 格式錯誤 (invalid JSON)' }] };
+  }
+
+  // Accept both our export envelope and a bare course array
+  if (Array.isArray(data)) return collect(data, true);
+  if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.courses)) {
+    return { courses: [], errors: [{ row: 0, message: '不是本工具匯出的檔案 (unknown file format)' }] };
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    return { courses: [], errors: [{ row: 0, message: `不支援的檔案版本 ${data.version} (unsupported version)` }] };
+  }
+  return { ...collect(data.courses, true), ruleSet: data.ruleSet };
+};
+
+export const parseCoursesCsv = (text: string): CourseImportResult => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return { courses: [], errors: [{ row: 0, message: '檔案是空的 (empty file)' }] };
+
+  const header = rows[0].map((h) => h.trim());
+  const column = (label: string) => header.indexOf(label);
+  const missing = CSV_HEADERS.slice(0, 5).filter((h) => column(h) < 0);
+  if (missing.length > 0) {
+    return { courses: [], errors: [{ row: 0, message: `缺少欄位：${missing.join('、')}` }] };
+  }
+
+  const isYes = (value: string) => ['y', 'yes', 'true', '1', '是'].includes(value.trim().toLowerCase());
+  const records = rows.slice(1).map((cells) => {
+    const cell = (label: string) => (column(label) >= 0 ? cells[column(label)] ?? '' : '');
+    return {
+      semester: cell('學年期'),
+      name: cell('課程名稱'),
+      credits: cell('學分'),
+      grade: cell('成績'),
+      category: cell('類別'),
+      isCurrent: isYes(cell('修習中')),
+      genEdDomain: cell('通識領域'),
+      isPlanned: isYes(cell('規劃中')),
+      source: cell('來源'),
+      sourceInstitution: cell('來源學校'),
+      approvalRef: cell('核准文號'),
+    };
+  });
+  return collect(records, false);
+};
+
+export const parseCourseFile = (fileName: string, text: string): CourseImportResult =>
+  fileName.toLowerCase().endsWith('.csv') ? parseCoursesCsv(text) : parseCoursesJson(text);
+
+// Merge: imported courses replace existing ones with the same id, or else the same semester and
+// normalized name (CSV rows carry no id), each existing course used once; the rest are appended
+export const mergeImportedCourses = (existing: Course[], imported: Course[]): Course[] => {
+  const existingIds = new Set(existing.map((c) => c.id));
+  const replacements = new Map<string, Course>();
+  imported.filter((c) => existingIds.has(c.id)).forEach((c) => replacements.set(c.id, c));
+
+  const available = new Map<string, Course[]>();
+  existing.filter((c) => !replacements.has(c.id)).forEach((c) => {
+    const key = courseMatchKey(c.semester, c.name);
+    available.set(key, [...(available.get(key) || []), c]);
+  });
+
+  const appended: Course[] = [];
+  imported.filter((c) => !existingIds.has(c.id)).forEach((c) => {
+    const match = available.get(courseMatchKey(c.semester, c.name))?.shift();
+    if (match) replacements.set(match.id, { ...c, id: match.id });
+    else appended.push(c);
+  });
+
+  return [...existing.map((c) => replacements.get(c.id) || c), ...appended];
+};
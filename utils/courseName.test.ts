@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { matchesCourseName } from './courseName';
+
+describe('matchesCourseName', () => {
+  it('matches the listed name and its split or sectioned forms', () => {
+    ['中級會計學', '中級會計學上', '中級會計學 下', '中級會計學(一)', '中級會計學（二）', '中級會計學II', '中級會計學上(甲)']
+      .forEach((name) => expect(matchesCourseName(name, ['中級會計學'])).toBe(true));
+  });
+
+  it('does not match a different course that starts with the listed name', () => {
+    expect(matchesCourseName('財務管理專題', ['財務管理'])).toBe(false);
+    expect(matchesCourseName('統計學習', ['統計學'])).toBe(false);
+    expect(matchesCourseName('會計學原理上', ['會計學'])).toBe(false);
+  });
+
+  it('matches any of the names given', () => {
+    expect(matchesCourseName('會計學甲上', ['會計學原理', '會計學甲'])).toBe(true);
+  });
+});
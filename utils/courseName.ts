@@ -0,0 +1,27 @@
+// Normalize a course name for matching: drop whitespace, unify full-width
+// brackets/letters with their ASCII forms and ignore case.
+export const normalizeCourseName = (name: string): string => {
+  return name
+    .normalize('NFKC') // （乙） -> (乙), Ａ -> A
+    .replace(/\s+/g, '')
+    .replace(/[【［]/g, '[')
+    .replace(/[】］]/g, ']')
+    .toLowerCase();
+};
+
+// Same course in the same semester, however its name or semester is spaced
+export const courseMatchKey = (semester: string, name: string) => `${semester.replace(/\s/g, '')}|${normalizeCourseName(name)}`;
+
+// What may follow a listed name on a split or sectioned course: 上/下, 一–四 or (一)–(四),
+// 1–4 or I–IV, and a 甲/乙/丙/丁 section before or after it (names are already lowercased)
+const SECTION = '(?:[甲乙丙丁]|\\([甲乙丙丁]\\))';
+const SPLIT_SUFFIX = new RegExp(`^${SECTION}?(?:[上下一二三四]|\\([上下一二三四]\\)|[1-4]|iv|i{1,3})?${SECTION}?$`);
+
+// A course matches a listed name when its normalized name equals it or only adds a split suffix,
+// so 中級會計學上/下 match 中級會計學 but 財務管理專題 does not match 財務管理
+export const matchesCourseName = (courseName: string, names: string[]): boolean => {
+  const normalized = normalizeCourseName(courseName);
+  return names
+    .map(normalizeCourseName)
+    .some((candidate) => normalized.startsWith(candidate) && SPLIT_SUFFIX.test(normalized.slice(candidate.length)));
+};
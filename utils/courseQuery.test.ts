@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_COURSE_FILTERS,
+  DEFAULT_COURSE_TABLE_VIEW,
+  filterCourses,
+  isFiltering,
+  parseCourseTableView,
+  sortCourses,
+} from './courseQuery';
+import { loadCourseTableView } from '../services/storage';
+import { course } from './__fixtures__/courses';
+
+const COURSES = [
+  course('acct', { name: '中級會計學 上', semester: '111-2', grade: 'B+' }),
+  course('calc', { name: '微積分上', semester: '111-1', category: '共同必修', grade: 'A' }),
+  course('failed', { name: '統計學上', semester: '111-1', grade: 'F' }),
+  course('current', { name: '審計學', semester: '112-1', grade: 'F', isCurrent: true, credits: 6 }),
+  course('planned', { name: '高等會計學', semester: '112-2', grade: 'A+', isPlanned: true }),
+];
+
+const ids = (courses: { id: string }[]) => courses.map((c) => c.id);
+
+describe('filterCourses', () => {
+  it('searches names ignoring spacing and case, and semesters', () => {
+    expect(ids(filterCourses(COURSES, DEFAULT_COURSE_FILTERS, '中級會計學上'))).toEqual(['acct']);
+    expect(ids(filterCourses(COURSES, DEFAULT_COURSE_FILTERS, ' 112-1 '))).toEqual(['current']);
+  });
+
+  it('filters by an inclusive semester range', () => {
+    const filters = { ...DEFAULT_COURSE_FILTERS, semesterFrom: '111-2', semesterTo: '112-1' };
+
+    expect(ids(filterCourses(COURSES, filters))).toEqual(['acct', 'current']);
+  });
+
+  it('filters by grade, category and in-progress', () => {
+    expect(ids(filterCourses(COURSES, { ...DEFAULT_COURSE_FILTERS, grade: 'A' }))).toEqual(['calc']);
+    expect(ids(filterCourses(COURSES, { ...DEFAULT_COURSE_FILTERS, category: '共同必修' }))).toEqual(['calc']);
+    expect(ids(filterCourses(COURSES, { ...DEFAULT_COURSE_FILTERS, inProgressOnly: true }))).toEqual(['current']);
+  });
+
+  it('treats only finished F grades as failed', () => {
+    expect(ids(filterCourses(COURSES, { ...DEFAULT_COURSE_FILTERS, failedOnly: true }))).toEqual(['failed']);
+  });
+
+  it('knows when any filter is set', () => {
+    expect(isFiltering(DEFAULT_COURSE_FILTERS)).toBe(false);
+    expect(isFiltering({ ...DEFAULT_COURSE_FILTERS, failedOnly: true })).toBe(true);
+  });
+});
+
+describe('sortCourses', () => {
+  it('sorts by grade best first, with Pass last', () => {
+    const withPass = [...COURSES, course('pass', { grade: 'Pass' })];
+
+    expect(ids(sortCourses(withPass, 'grade', 'asc'))).toEqual(['planned', 'calc', 'acct', 'failed', 'current', 'pass']);
+  });
+
+  it('reverses the key but breaks ties oldest first', () => {
+    expect(ids(sortCourses(COURSES, 'credits', 'desc'))).toEqual(['current', 'calc', 'failed', 'acct', 'planned']);
+  });
+
+  it('does not reorder the input', () => {
+    const input = COURSES.slice();
+    sortCourses(input, 'name', 'desc');
+
+    expect(input).toEqual(COURSES);
+  });
+});
+
+describe('parseCourseTableView', () => {
+  it('round-trips a saved view', () => {
+    const view = {
+      filters: { ...DEFAULT_COURSE_FILTERS, semesterFrom: '111-1', grade: 'A' as const, category: '通識' as const, failedOnly: true },
+      grouping: 'semester' as const,
+      sortKey: 'credits' as const,
+      sortDirection: 'desc' as const,
+    };
+
+    expect(parseCourseTableView(JSON.parse(JSON.stringify(view)))).toEqual(view);
+  });
+
+  it('falls back to the default for anything unreadable', () => {
+    [null, 'view', 42, [], { filters: 'none' }].forEach((data) =>
+      expect(parseCourseTableView(data)).toEqual(DEFAULT_COURSE_TABLE_VIEW)
+    );
+    expect(parseCourseTableView({
+      filters: { semesterFrom: 111, grade: 'S', category: '社團', inProgressOnly: 'yes' },
+      grouping: 'teacher',
+      sortKey: 'id',
+      sortDirection: 'up',
+    })).toEqual(DEFAULT_COURSE_TABLE_VIEW);
+  });
+});
+
+describe('loadCourseTableView', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the default view when the saved one is corrupt', () => {
+    vi.stubGlobal('localStorage', { getItem: () => '{"grouping": "semester"' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(loadCourseTableView()).toEqual(DEFAULT_COURSE_TABLE_VIEW);
+  });
+});
@@ -0,0 +1,108 @@
+import { Course, CourseCategory, Grade, COURSE_CATEGORIES, GRADES } from '../types';
+import { normalizeCourseName } from './courseName';
+import { compareSemesters } from './semester';
+
+export type CourseGrouping = 'category' | 'semester' | 'flat';
+export type CourseSortKey = 'semester' | 'name' | 'credits' | 'grade' | 'category';
+export type SortDirection = 'asc' | 'desc';
+
+export interface CourseFilters {
+  semesterFrom: string;           // Inclusive; '' = no lower bound
+  semesterTo: string;             // Inclusive; '' = no upper bound
+  grade: Grade | '';
+  category: CourseCategory | '';
+  inProgressOnly: boolean;
+  failedOnly: boolean;
+}
+
+// How the course list is shown; persisted between sessions (the search text is not)
+export interface CourseTableView {
+  filters: CourseFilters;
+  grouping: CourseGrouping;
+  sortKey: CourseSortKey;
+  sortDirection: SortDirection;
+}
+
+export const DEFAULT_COURSE_FILTERS: CourseFilters = {
+  semesterFrom: '',
+  semesterTo: '',
+  grade: '',
+  category: '',
+  inProgressOnly: false,
+  failedOnly: false,
+};
+
+export const DEFAULT_COURSE_TABLE_VIEW: CourseTableView = {
+  filters: DEFAULT_COURSE_FILTERS,
+  grouping: 'category',
+  sortKey: 'semester',
+  sortDirection: 'asc',
+};
+
+const GROUPINGS: CourseGrouping[] = ['category', 'semester', 'flat'];
+const SORT_KEYS: CourseSortKey[] = ['semester', 'name', 'credits', 'grade', 'category'];
+
+type JsonObject = Record<string, unknown>;
+const asObject = (value: unknown): JsonObject => (typeof value === 'object' && value !== null ? (value as JsonObject) : {});
+const pick = <T extends string>(options: readonly T[], value: unknown, fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+// Anything unreadable in a saved view falls back to the default
+export const parseCourseTableView = (data: unknown): CourseTableView => {
+  const view = asObject(data);
+  const filters = asObject(view.filters);
+  const defaults = DEFAULT_COURSE_TABLE_VIEW;
+  return {
+    filters: {
+      semesterFrom: typeof filters.semesterFrom === 'string' ? filters.semesterFrom : '',
+      semesterTo: typeof filters.semesterTo === 'string' ? filters.semesterTo : '',
+      grade: pick<Grade | ''>(GRADES, filters.grade, ''),
+      category: pick<CourseCategory | ''>(COURSE_CATEGORIES, filters.category, ''),
+      inProgressOnly: filters.inProgressOnly === true,
+      failedOnly: filters.failedOnly === true,
+    },
+    grouping: pick(GROUPINGS, view.grouping, defaults.grouping),
+    sortKey: pick(SORT_KEYS, view.sortKey, defaults.sortKey),
+    sortDirection: pick<SortDirection>(['asc', 'desc'], view.sortDirection, defaults.sortDirection),
+  };
+};
+
+export const isFiltering = (filters: CourseFilters) =>
+  (Object.keys(DEFAULT_COURSE_FILTERS) as (keyof CourseFilters)[]).some((k) => filters[k] !== DEFAULT_COURSE_FILTERS[k]);
+
+// A failed attempt that has a final grade (in-progress and planned F's are only predictions)
+const isFailed = (course: Course) => course.grade === 'F' && !course.isCurrent && !course.isPlanned;
+
+// Search matches the course name (ignoring spacing and case) or the semester
+export const filterCourses = (courses: Course[], filters: CourseFilters, search = ''): Course[] => {
+  const query = normalizeCourseName(search);
+  return courses.filter((c) =>
+    (!query || normalizeCourseName(c.name).includes(query) || c.semester.includes(search.trim())) &&
+    (!filters.semesterFrom || compareSemesters(c.semester, filters.semesterFrom) >= 0) &&
+    (!filters.semesterTo || compareSemesters(c.semester, filters.semesterTo) <= 0) &&
+    (!filters.grade || c.grade === filters.grade) &&
+    (!filters.category || c.category === filters.category) &&
+    (!filters.inProgressOnly || !!c.isCurrent) &&
+    (!filters.failedOnly || isFailed(c))
+  );
+};
+
+const compareBy: Record<CourseSortKey, (a: Course, b: Course) => number> = {
+  semester: (a, b) => compareSemesters(a.semester, b.semester),
+  name: (a, b) => a.name.localeCompare(b.name),
+  credits: (a, b) => a.credits - b.credits,
+  grade: (a, b) => GRADES.indexOf(a.grade) - GRADES.indexOf(b.grade), // A+ first, Pass last
+  category: (a, b) => COURSE_CATEGORIES.indexOf(a.category) - COURSE_CATEGORIES.indexOf(b.category),
+};
+
+// Ties fall back to semester, then name, always oldest first
+export const sortCourses = (courses: Course[], key: CourseSortKey, direction: SortDirection): Course[] =>
+  courses.slice().sort((a, b) =>
+    (direction === 'asc' ? 1 : -1) * compareBy[key](a, b) ||
+    compareBy.semester(a, b) ||
+    compareBy.name(a, b)
+  );
+
+// Distinct semesters in chronological order, for the range pickers and semester grouping
+export const listSemesters = (courses: Course[]): string[] =>
+  Array.from(new Set(courses.map((c) => c.semester))).sort(compareSemesters);
@@ -0,0 +1,54 @@
+import { Course, ExemptionRules } from '../types';
+import { categoryToRequirementKey } from './allocation';
+import { getCreditBearingCourses } from './retakes';
+import { compareSemesters } from './semester';
+
+export interface ExcludedExemption {
+  course: Course;
+  credits: number;          // Credits that do not count
+  reason: 'cap' | 'bucket'; // Over maxCredits, or in a bucket exemptions may not fill
+}
+
+export interface ExemptionCheck {
+  courses: Course[];        // The course list with uncounted exemption credits taken out
+  claimed: number;          // Exemption credits on record (graduation buckets only)
+  counted: number;
+  maxCredits: number | null;
+  excluded: ExcludedExemption[];
+}
+
+// 抵免, transfers and exam waivers; courses without a source were taken here
+export const isExempted = (course: Course) => !!course.source && course.source !== 'taken';
+
+// Count exemptions oldest first until the cap; the rest, and any in a disallowed bucket, count nothing
+export const applyExemptionRules = (courses: Course[], rules?: ExemptionRules): ExemptionCheck => {
+  const exempted = getCreditBearingCourses(courses)
+    .filter((c) => isExempted(c) && categoryToRequirementKey(c.category))
+    .sort((a, b) => compareSemesters(a.semester, b.semester));
+  const claimed = exempted.reduce((sum, c) => sum + c.credits, 0);
+
+  if (!rules) return { courses, claimed, counted: claimed, maxCredits: null, excluded: [] };
+
+  let room = rules.maxCredits;
+  const excluded: ExcludedExemption[] = [];
+  exempted.forEach((course) => {
+    if (!rules.allowedBuckets.includes(categoryToRequirementKey(course.category)!)) {
+      excluded.push({ course, credits: course.credits, reason: 'bucket' });
+      return;
+    }
+    const counted = Math.min(course.credits, room);
+    room -= counted;
+    if (counted < course.credits) excluded.push({ course, credits: course.credits - counted, reason: 'cap' });
+  });
+
+  const cut = new Map(excluded.map((e) => [e.course.id, e.credits]));
+  return {
+    courses: courses
+      .map((c) => (cut.has(c.id) ? { ...c, credits: c.credits - cut.get(c.id)! } : c))
+      .filter((c) => !cut.has(c.id) || c.credits > 0),
+    claimed,
+    counted: claimed - excluded.reduce((sum, e) => sum + e.credits, 0),
+    maxCredits: rules.maxCredits,
+    excluded,
+  };
+};
@@ -0,0 +1,60 @@
+import { Course, GenEdDomain, GenEdDomainRequirement } from '../types';
+import { getCreditBearingCourses } from './retakes';
+
+export const GEN_ED_DOMAINS: GenEdDomain[] = ['A1', 'A2', 'A3', 'A4', 'A5', 'A6', 'A7', 'A8'];
+
+export interface GenEdDomainProgress {
+  domain: GenEdDomain;
+  earned: number;
+  projected: number;
+  isCovered: boolean;
+  isCoveredProjected: boolean;
+}
+
+export interface GenEdDomainCheck {
+  domains: GenEdDomainProgress[];
+  coveredCount: number;
+  coveredCountProjected: number;
+  untagged: number; // 通識 courses with no domain set
+  isMet: boolean;
+}
+
+// Sum passed 通識 credits per domain and compare against the coverage constraint (planned courses are left out)
+export const checkGenEdDomains = (courses: Course[], requirement: GenEdDomainRequirement): GenEdDomainCheck => {
+  let untagged = 0;
+  const earned = {} as Record<GenEdDomain, number>;
+  const projected = {} as Record<GenEdDomain, number>;
+  GEN_ED_DOMAINS.forEach((d) => { earned[d] = 0; projected[d] = 0; });
+
+  getCreditBearingCourses(courses).forEach((course) => {
+    if (course.category !== '通識' || course.isPlanned) return;
+    if (!course.genEdDomain) {
+      untagged++;
+      return;
+    }
+    if (course.isCurrent) {
+      projected[course.genEdDomain] += course.credits;
+    } else {
+      earned[course.genEdDomain] += course.credits;
+    }
+  });
+
+  const domains = GEN_ED_DOMAINS.map((domain) => ({
+    domain,
+    earned: earned[domain],
+    projected: projected[domain],
+    isCovered: earned[domain] >= requirement.minCreditsPerDomain,
+    isCoveredProjected: earned[domain] + projected[domain] >= requirement.minCreditsPerDomain,
+  }));
+
+  const coveredCount = domains.filter((d) => d.isCovered).length;
+  const coveredCountProjected = domains.filter((d) => d.isCoveredProjected).length;
+
+  return {
+    domains,
+    coveredCount,
+    coveredCountProjected,
+    untagged,
+    isMet: coveredCount >= requirement.minDomains,
+  };
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { planTargetGpa } from './gpa';
+import { course } from './__fixtures__/courses';
+
+describe('planTargetGpa', () => {
+  it('counts in-progress and planned courses whatever placeholder grade they hold', () => {
+    const plan = planTargetGpa([
+      course('done', { grade: 'B' }),
+      course('current', { semester: '112-1', grade: 'Pass', isCurrent: true }),
+      course('planned', { semester: '112-2', grade: 'Pass', isPlanned: true }),
+      course('pe', { semester: '112-1', category: '體育', credits: 0, grade: 'Pass', isCurrent: true }),
+    ], 3.5);
+
+    expect(plan.remainingCredits).toBe(6);
+    expect(plan.status).toBe('feasible');
+    expect(plan.requiredAverage).toBeCloseTo(3.75);
+    expect(plan.combinations[0].grades).toEqual({ current: 'A' });
+  });
+
+  it('reports nothing remaining when every course is finished', () => {
+    expect(planTargetGpa([course('done', { grade: 'B' })], 3.5).status).toBe('noRemaining');
+  });
+});
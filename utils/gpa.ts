@@ -0,0 +1,210 @@
+import { Course, GpaDefinition, Grade, GRADE_POINTS, GRADES } from '../types';
+import { isExempted } from './exemptions';
+import { resolveAttempts } from './retakes';
+import { compareSemesters, isSummerTerm } from './semester';
+
+export interface GradePointTotals {
+  points: number;
+  credits: number;
+}
+
+// Letter grades that pass, best first (Pass has no grade points, F does not pass)
+export const PASSING_LETTER_GRADES: Grade[] = GRADES
+  .filter((g) => GRADE_POINTS[g] > 0)
+  .sort((a, b) => GRADE_POINTS[b] - GRADE_POINTS[a]);
+
+export const toGpa = (totals: GradePointTotals) => (totals.credits > 0 ? totals.points / totals.credits : 0);
+
+// Graded, credit-bearing, non-PE courses whose attempt counts (failed attempts stay in, superseded repeats are left out).
+// 抵免 and transfer credits carry no grade points here.
+export const getGpaCourses = (courses: Course[]): Course[] => {
+  const attempts = resolveAttempts(courses);
+  return courses.filter((c) =>
+    GRADE_POINTS[c.grade] >= 0 && c.credits > 0 && c.category !== '體育' && !isExempted(c) && attempts.get(c.id)?.countsForGpa
+  );
+};
+
+export const sumGradePoints = (courses: Course[]): GradePointTotals =>
+  courses.reduce(
+    (acc, c) => ({ points: acc.points + GRADE_POINTS[c.grade] * c.credits, credits: acc.credits + c.credits }),
+    { points: 0, credits: 0 }
+  );
+
+export type GpaScale = 'ntu43' | 'us40' | 'percent';
+
+type LetterGrade = Exclude<Grade, 'Pass'>;
+
+export interface GpaScaleInfo {
+  label: string;
+  digits: number;
+  values: Record<LetterGrade, number>;
+}
+
+// Per-course conversions, averaged by credits. The 4.0 scale caps A+ at 4.0;
+// the percentage scale uses the middle of each NTU 等第 band (A+ 90–100, A 85–89, ...).
+export const GPA_SCALES: Record<GpaScale, GpaScaleInfo> = {
+  ntu43: {
+    label: '4.3 制',
+    digits: 2,
+    values: { 'A+': 4.3, 'A': 4.0, 'A-': 3.7, 'B+': 3.3, 'B': 3.0, 'B-': 2.7, 'C+': 2.3, 'C': 2.0, 'C-': 1.7, 'F': 0 },
+  },
+  us40: {
+    label: '4.0 制',
+    digits: 2,
+    values: { 'A+': 4.0, 'A': 4.0, 'A-': 3.7, 'B+': 3.3, 'B': 3.0, 'B-': 2.7, 'C+': 2.3, 'C': 2.0, 'C-': 1.7, 'F': 0 },
+  },
+  percent: {
+    label: '百分制',
+    digits: 1,
+    values: { 'A+': 95, 'A': 87, 'A-': 82, 'B+': 78, 'B': 75, 'B-': 71, 'C+': 68, 'C': 65, 'C-': 61, 'F': 50 },
+  },
+};
+
+export interface GpaResult {
+  definition: GpaDefinition;
+  credits: number;
+  values: Record<GpaScale, number | null>; // null when no course matches the definition
+}
+
+// Completed, GPA-counted courses matching a definition. Recency windows are taken over all completed courses
+// (the student's last semesters), then narrowed to the definition's categories.
+export const selectGpaCourses = (courses: Course[], definition: GpaDefinition): Course[] => {
+  const completed = getGpaCourses(courses).filter((c) => !c.isCurrent && !c.isPlanned);
+  const newestFirst = Array.from(new Set(completed.map((c) => c.semester.trim()))).sort((a, b) => compareSemesters(b, a));
+
+  let window = newestFirst;
+  if (definition.lastSemesters !== undefined) {
+    const regular = newestFirst.filter((s) => !isSummerTerm(s)).slice(0, definition.lastSemesters);
+    const oldest = regular[regular.length - 1];
+    window = oldest ? window.filter((s) => compareSemesters(s, oldest) >= 0) : [];
+  }
+  if (definition.lastCredits !== undefined) {
+    let credits = 0;
+    window = window.filter((s) => {
+      if (credits >= definition.lastCredits!) return false;
+      credits += completed.filter((c) => c.semester.trim() === s).reduce((sum, c) => sum + c.credits, 0);
+      return true;
+    });
+  }
+
+  const inWindow = new Set(window);
+  return completed.filter((c) =>
+    inWindow.has(c.semester.trim()) && (!definition.categories || definition.categories.includes(c.category))
+  );
+};
+
+export const computeGpa = (courses: Course[], definition: GpaDefinition): GpaResult => {
+  const selected = selectGpaCourses(courses, definition);
+  const credits = selected.reduce((sum, c) => sum + c.credits, 0);
+  const average = (scale: GpaScale) => {
+    if (credits === 0) return null;
+    const { values } = GPA_SCALES[scale];
+    return selected.reduce((sum, c) => sum + values[c.grade as LetterGrade] * c.credits, 0) / credits;
+  };
+  return { definition, credits, values: { ntu43: average('ntu43'), us40: average('us40'), percent: average('percent') } };
+};
+
+export type TargetGpaStatus = 'reached' | 'feasible' | 'impossible' | 'noRemaining';
+
+export interface GradeCombination {
+  label: string;
+  grades: Record<string, Grade>; // Course id -> grade
+  gpa: number;                   // Resulting overall GPA, planned courses at the required average
+}
+
+export interface TargetGpaPlan {
+  status: TargetGpaStatus;
+  currentGpa: number;
+  earnedCredits: number;
+  remainingCredits: number;  // In-progress plus planned graded credits
+  requiredAverage: number;   // Average grade points needed over the remaining credits
+  requiredGrade?: Grade;     // Lowest single letter grade at or above requiredAverage
+  combinations: GradeCombination[];
+}
+
+const EPSILON = 1e-9;
+
+const lowestGradeAtLeast = (average: number): Grade | undefined =>
+  [...PASSING_LETTER_GRADES].reverse().find((g) => GRADE_POINTS[g] >= average - EPSILON);
+
+const gradeBelow = (grade: Grade): Grade | undefined =>
+  PASSING_LETTER_GRADES[PASSING_LETTER_GRADES.indexOf(grade) + 1];
+
+const pointsOf = (courses: Course[], grades: Record<string, Grade>) =>
+  courses.reduce((sum, c) => sum + GRADE_POINTS[grades[c.id]] * c.credits, 0);
+
+// Starting from `base`, raise courses in `order` one at a time (each to `ceiling`) until `needed` points are covered;
+// the last course raised only as far as it has to
+const raiseUntilMet = (courses: Course[], base: Record<string, Grade>, order: Course[], ceiling: Grade, needed: number) => {
+  const grades = { ...base };
+  for (const course of order) {
+    if (pointsOf(courses, grades) >= needed - EPSILON) break;
+    const ladder = PASSING_LETTER_GRADES.slice(PASSING_LETTER_GRADES.indexOf(ceiling)).reverse(); // Worst to ceiling
+    for (const g of ladder) {
+      if (GRADE_POINTS[g] <= GRADE_POINTS[grades[course.id]]) continue;
+      grades[course.id] = g;
+      if (pointsOf(courses, grades) >= needed - EPSILON) break;
+    }
+  }
+  return pointsOf(courses, grades) >= needed - EPSILON ? grades : null;
+};
+
+// What average grade the in-progress and planned courses need for the overall GPA to reach `target`,
+// plus a few concrete grade combinations for the in-progress courses
+export const planTargetGpa = (courses: Course[], target: number): TargetGpaPlan => {
+  const completed = sumGradePoints(getGpaCourses(courses).filter((c) => !c.isCurrent && !c.isPlanned));
+  // Remaining courses count whatever grade they hold for now (often a Pass placeholder): the plan picks their grades
+  const remaining = courses.filter((c) =>
+    (c.isCurrent || c.isPlanned) && c.credits > 0 && c.category !== '體育' && !isExempted(c)
+  );
+  const inProgress = remaining.filter((c) => c.isCurrent);
+  const remainingCredits = remaining.reduce((sum, c) => sum + c.credits, 0);
+
+  const base = {
+    currentGpa: toGpa(completed),
+    earnedCredits: completed.credits,
+    remainingCredits,
+    combinations: [] as GradeCombination[],
+  };
+
+  if (remainingCredits === 0) {
+    return { ...base, status: toGpa(completed) >= target - EPSILON && completed.credits > 0 ? 'reached' : 'noRemaining', requiredAverage: 0 };
+  }
+
+  const requiredAverage = (target * (completed.credits + remainingCredits) - completed.points) / remainingCredits;
+  if (requiredAverage <= EPSILON) return { ...base, status: 'reached', requiredAverage: 0 };
+
+  const requiredGrade = lowestGradeAtLeast(requiredAverage);
+  if (!requiredGrade) return { ...base, status: 'impossible', requiredAverage };
+
+  const neededPoints = requiredAverage * inProgress.reduce((sum, c) => sum + c.credits, 0);
+  const plannedCredits = remainingCredits - inProgress.reduce((sum, c) => sum + c.credits, 0);
+  const overallGpa = (grades: Record<string, Grade>) =>
+    (completed.points + pointsOf(inProgress, grades) + requiredAverage * plannedCredits) / (completed.credits + remainingCredits);
+
+  const uniform = (grade: Grade) => Object.fromEntries(inProgress.map((c) => [c.id, grade])) as Record<string, Grade>;
+  const byCreditsDesc = [...inProgress].sort((a, b) => b.credits - a.credits);
+  const floor = PASSING_LETTER_GRADES[PASSING_LETTER_GRADES.length - 1];
+  const below = gradeBelow(requiredGrade);
+
+  const candidates: { label: string; grades: Record<string, Grade> | null }[] = [
+    { label: `全部 ${requiredGrade}`, grades: uniform(requiredGrade) },
+    // One step below across the board, lifting the heaviest courses back up
+    { label: '均衡 (Balanced)', grades: below ? raiseUntilMet(inProgress, uniform(below), byCreditsDesc, requiredGrade, neededPoints) : null },
+    // Max out the heaviest courses, just pass the rest
+    { label: '主科衝刺 (Focus on big courses)', grades: raiseUntilMet(inProgress, uniform(floor), byCreditsDesc, 'A+', neededPoints) },
+  ];
+
+  const seen = new Set<string>();
+  const combinations = candidates
+    .filter((c): c is { label: string; grades: Record<string, Grade> } => !!c.grades && inProgress.length > 0)
+    .filter((c) => {
+      const key = inProgress.map((course) => c.grades[course.id]).join(',');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((c) => ({ ...c, gpa: overallGpa(c.grades) }));
+
+  return { ...base, status: 'feasible', requiredAverage, requiredGrade, combinations };
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { applyTranscriptChanges } from './importReconcile';
+import { course } from './__fixtures__/courses';
+
+describe('applyTranscriptChanges', () => {
+  it('replaces courses by id and appends new ones', () => {
+    const existing = [course('a', { isCurrent: true }), course('b')];
+    const applied = applyTranscriptChanges(existing, [course('a', { grade: 'B+' }), course('new', { semester: '112-1' })]);
+
+    expect(applied.map((c) => [c.id, c.grade])).toEqual([['a', 'B+'], ['b', 'A'], ['new', 'A']]);
+  });
+
+  it('keeps a row the user added as new even when an existing course has the same name', () => {
+    const existing = [course('a', { name: '體育' })];
+    const applied = applyTranscriptChanges(existing, [course('fresh', { name: '體育', grade: 'Pass' })]);
+
+    expect(applied.map((c) => [c.id, c.grade])).toEqual([['a', 'A'], ['fresh', 'Pass']]);
+  });
+});
@@ -0,0 +1,59 @@
+import { Course } from '../types';
+import { courseMatchKey } from './courseName';
+
+// new:       no existing course in the same semester with the same name
+// unchanged: matches an existing course field for field
+// updated:   matches an in-progress or planned course that now has a result
+// conflict:  matches a finalized course but the transcript says something else
+export type ReconcileKind = 'new' | 'unchanged' | 'updated' | 'conflict';
+
+export type ImportedRow = Pick<Course, 'semester' | 'name' | 'credits' | 'grade' | 'category' | 'isCurrent' | 'genEdDomain' | 'source'>;
+
+export interface ReconcileMatch {
+  kind: ReconcileKind;
+  existing?: Course;
+  fields: (keyof Course)[]; // Fields that differ from the existing course
+}
+
+// Fields a transcript can tell us about; genEdDomain is never on one
+const COMPARED_FIELDS: (keyof ImportedRow)[] = ['credits', 'grade', 'isCurrent', 'category', 'source'];
+
+// Match incoming rows to existing courses by semester and normalized name, each existing course used once
+export const reconcileImport = (existing: Course[], incoming: ImportedRow[]): ReconcileMatch[] => {
+  const available = new Map<string, Course[]>();
+  existing.forEach((c) => {
+    const key = courseMatchKey(c.semester, c.name);
+    available.set(key, [...(available.get(key) || []), c]);
+  });
+
+  return incoming.map((row) => {
+    const candidates = available.get(courseMatchKey(row.semester, row.name));
+    const match = candidates && candidates.shift();
+    if (!match) return { kind: 'new', fields: [] };
+
+    const fields: (keyof Course)[] = COMPARED_FIELDS.filter((f) => (f === 'isCurrent' ? !!match.isCurrent !== !!row.isCurrent : f === 'source' ? (match.source || 'taken') !== (row.source || 'taken') : match[f] !== row[f]));
+    if (match.isPlanned) fields.push('isPlanned'); // Transcripts only list courses actually taken
+    if (fields.length === 0) return { kind: 'unchanged', existing: match, fields };
+    return { kind: match.isCurrent || match.isPlanned ? 'updated' : 'conflict', existing: match, fields };
+  });
+};
+
+// The existing course with the transcript's values applied; keeps its id and, unless re-picked, its 通識 domain
+export const applyImportedRow = (existing: Course, row: ImportedRow): Course => ({
+  ...existing,
+  credits: row.credits,
+  grade: row.grade,
+  isCurrent: row.isCurrent,
+  isPlanned: undefined,
+  category: row.category,
+  source: row.source,
+  genEdDomain: row.category === '通識' ? row.genEdDomain || existing.genEdDomain : undefined,
+});
+
+// Apply what the user confirmed in the reconcile step: changes carrying an existing id replace that
+// course, the rest are appended. No name matching here, so a row the user chose to add as new stays new.
+export const applyTranscriptChanges = (existing: Course[], changes: Course[]): Course[] => {
+  const byId = new Map(changes.map((c) => [c.id, c]));
+  const existingIds = new Set(existing.map((c) => c.id));
+  return [...existing.map((c) => byId.get(c.id) || c), ...changes.filter((c) => !existingIds.has(c.id))];
+};
@@ -0,0 +1,36 @@
+import { Course, GraduationRequirements, OverflowRules } from '../types';
+import { allocateCredits, REQUIREMENT_KEYS } from './allocation';
+import { compareSemesters } from './semester';
+
+export interface GraduationForecast {
+  metNow: boolean;          // Completed courses alone already satisfy every requirement
+  semester: string | null;  // Earliest in-progress/planned semester after which everything is met; null if never
+}
+
+const meetsAll = (courses: Course[], requirements: GraduationRequirements, overflowRules?: OverflowRules) => {
+  const { total, buckets } = allocateCredits(courses, requirements, overflowRules);
+  return total.earned >= requirements.total && REQUIREMENT_KEYS.every((key) => buckets[key].earned >= requirements[key]);
+};
+
+// Walk the in-progress and planned semesters in order, treating everything up to each one as passed,
+// and report the first semester that closes every requirement bucket and the total.
+export const forecastGraduation = (
+  courses: Course[],
+  requirements: GraduationRequirements,
+  overflowRules?: OverflowRules
+): GraduationForecast => {
+  const completed = courses.filter((c) => !c.isCurrent && !c.isPlanned);
+  if (meetsAll(completed, requirements, overflowRules)) return { metNow: true, semester: null };
+
+  const upcoming = courses.filter((c) => c.isCurrent || c.isPlanned);
+  const semesters = Array.from(new Set(upcoming.map((c) => c.semester))).sort(compareSemesters);
+
+  const semester = semesters.find((s) => {
+    const assumed = upcoming
+      .filter((c) => compareSemesters(c.semester, s) <= 0)
+      .map((c) => ({ ...c, isCurrent: false, isPlanned: false }));
+    return meetsAll([...completed, ...assumed], requirements, overflowRules);
+  });
+
+  return { metNow: false, semester: semester ?? null };
+};
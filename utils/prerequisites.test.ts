@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Course, Prerequisite } from '../types';
+import { checkPrerequisites } from './prerequisites';
+import { course } from './__fixtures__/courses';
+
+const RULES: Prerequisite[] = [
+  { course: '中級會計學', requires: ['會計學原理'] },
+  { course: '財務管理', requires: ['會計學原理'] },
+];
+
+const problems = (courses: Course[]) =>
+  checkPrerequisites(courses, RULES).map((i) => [i.course.id, i.prerequisite, i.problem, i.prerequisiteSemester]);
+
+describe('checkPrerequisites', () => {
+  it('accepts a prerequisite passed in an earlier semester', () => {
+    expect(problems([course('p', { name: '會計學原理上' }), course('c', { name: '中級會計學上', semester: '111-2' })])).toEqual([]);
+  });
+
+  it('flags a prerequisite that is missing', () => {
+    expect(problems([course('c', { name: '中級會計學上' })])).toEqual([['c', '會計學原理', 'missing', undefined]]);
+  });
+
+  it('flags a prerequisite taken in the same semester', () => {
+    expect(problems([course('p', { name: '會計學原理上' }), course('c', { name: '中級會計學上' })]))
+      .toEqual([['c', '會計學原理', 'sameSemester', '111-1']]);
+  });
+
+  it('flags a prerequisite only taken later, giving its earliest semester', () => {
+    expect(problems([
+      course('c', { name: '中級會計學上', semester: '111-1' }),
+      course('p2', { name: '會計學原理下', semester: '112-1' }),
+      course('p1', { name: '會計學原理上', semester: '111-2' }),
+    ])).toEqual([['c', '會計學原理', 'later', '111-2']]);
+  });
+
+  it('does not count a failed attempt, but does count in-progress and planned ones', () => {
+    const failed = course('p', { name: '會計學原理上', grade: 'F' });
+    const later = course('c', { name: '中級會計學上', semester: '111-2' });
+
+    expect(problems([failed, later])).toEqual([['c', '會計學原理', 'missing', undefined]]);
+    expect(problems([{ ...failed, isCurrent: true }, later])).toEqual([]);
+    expect(problems([{ ...failed, isPlanned: true }, later])).toEqual([]);
+  });
+
+  it('accepts a catalog alias of the prerequisite (會計學甲 for 會計學原理)', () => {
+    expect(problems([course('p', { name: '會計學甲上' }), course('c', { name: '中級會計學上', semester: '111-2' })])).toEqual([]);
+  });
+
+  it('does not apply a rule to a course whose name only starts with the rule course', () => {
+    expect(problems([course('c', { name: '財務管理專題' })])).toEqual([]);
+    expect(problems([course('c', { name: '財務管理' })])).toEqual([['c', '會計學原理', 'missing', undefined]]);
+  });
+});
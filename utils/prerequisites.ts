@@ -0,0 +1,51 @@
+import { Course, Prerequisite } from '../types';
+import { COURSE_CATALOG } from '../data/courseCatalog';
+import { matchesCourseName, normalizeCourseName } from './courseName';
+import { compareSemesters } from './semester';
+
+// missing: the prerequisite is nowhere in the list; sameSemester / later: it is only taken alongside or after
+export type PrerequisiteProblem = 'missing' | 'sameSemester' | 'later';
+
+export interface PrerequisiteIssue {
+  course: Course;
+  prerequisite: string;
+  problem: PrerequisiteProblem;
+  prerequisiteSemester?: string; // Earliest semester the prerequisite appears in, for sameSemester / later
+}
+
+// A prerequisite's name plus its catalog aliases (會計學原理 is also 會計學甲)
+const namesFor = (name: string) => {
+  const entry = COURSE_CATALOG.find((c) => normalizeCourseName(c.name) === normalizeCourseName(name));
+  return [name, ...(entry?.aliases || [])];
+};
+
+// Walk the courses in semester order and flag every course taken or planned before one of its prerequisites.
+// Failed attempts do not satisfy a prerequisite; in-progress and planned ones are assumed to pass.
+export const checkPrerequisites = (courses: Course[], prerequisites: Prerequisite[]): PrerequisiteIssue[] => {
+  const ordered = courses.slice().sort((a, b) => compareSemesters(a.semester, b.semester));
+  const passing = ordered.filter((c) => c.grade !== 'F' || c.isCurrent || c.isPlanned);
+
+  return ordered.flatMap((course) =>
+    prerequisites
+      .filter((rule) => matchesCourseName(course.name, [rule.course]))
+      .flatMap((rule) => rule.requires.map((prerequisite): PrerequisiteIssue | null => {
+        const names = namesFor(prerequisite);
+        const taken = passing.filter((c) => c.id !== course.id && matchesCourseName(c.name, names));
+        if (taken.some((c) => compareSemesters(c.semester, course.semester) < 0)) return null;
+        if (taken.length === 0) return { course, prerequisite, problem: 'missing' };
+        const first = taken[0].semester; // `passing` is already in semester order
+        return {
+          course,
+          prerequisite,
+          problem: compareSemesters(first, course.semester) === 0 ? 'sameSemester' : 'later',
+          prerequisiteSemester: first,
+        };
+      }))
+      .filter((issue): issue is PrerequisiteIssue => issue !== null)
+  );
+};
+
+export const describePrerequisiteIssue = (issue: PrerequisiteIssue) =>
+  issue.problem === 'missing' ? `尚未修習先修課程「${issue.prerequisite}」` :
+  issue.problem === 'sameSemester' ? `與先修課程「${issue.prerequisite}」同學期 (${issue.prerequisiteSemester})` :
+  `先修課程「${issue.prerequisite}」排在之後 (${issue.prerequisiteSemester})`;
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Course, CourseCategory } from '../types';
+import { getCurriculum } from '../data/curricula';
+import { getSecondaryProgram } from '../data/programs';
+import { allocateCredits } from './allocation';
+import { evaluatePrograms } from './programs';
+
+let nextId = 0;
+const course = (name: string, category: CourseCategory, semester = '111-1', credits = 3): Course => ({
+  id: `c${++nextId}`,
+  semester,
+  name,
+  credits,
+  category,
+  grade: 'A',
+  isCurrent: false,
+});
+
+// Accounting 系訂必修 that the catalog also lists as finance 系訂必修 / 指定選修
+const accountingRequired = [
+  course('會計學原理上', '系訂必修'),
+  course('會計學原理下', '系訂必修', '111-2'),
+  course('微積分上', '系訂必修'),
+  course('微積分下', '系訂必修', '111-2'),
+  course('經濟學原理上', '系訂必修'),
+  course('經濟學原理下', '系訂必修', '111-2'),
+  course('統計學上', '系訂必修', '112-1'),
+  course('統計學下', '系訂必修', '112-2'),
+  course('企業管理', '系訂必修', '112-1'),
+  course('中級會計學上', '系訂必修', '112-1'),
+  course('財務管理', '系訂必修', '113-1'),
+];
+const financeElectives = [
+  course('公司理財', '一般選修', '113-1'),
+  course('金融市場', '一般選修', '113-1'),
+  course('期貨與選擇權', '一般選修', '113-2'),
+];
+
+describe('evaluatePrograms', () => {
+  const curriculum = getCurriculum('accounting-111');
+  const minor = getSecondaryProgram('finance-minor')!;
+  const allocate = (courses: Course[]) => allocateCredits(courses, curriculum.requirements, curriculum.overflowRules).buckets;
+
+  it("keeps courses the primary needs in the primary's buckets", () => {
+    const courses = [...accountingRequired, ...financeElectives];
+    const { primaryCourses } = evaluatePrograms(courses, [minor]);
+
+    expect(allocate(primaryCourses).deptRequired).toEqual(allocate(courses).deptRequired);
+    accountingRequired.forEach((c) => expect(primaryCourses).toContainEqual(c));
+  });
+
+  it('stops counting primary-needed credits toward the program past the shared limit', () => {
+    const { programs: [progress] } = evaluatePrograms(accountingRequired, [minor]);
+
+    expect(progress.shared).toBe(minor.maxSharedCredits);
+    expect(progress.exclusive).toBe(0);
+    expect(progress.uncounted).toBe(33 - minor.maxSharedCredits);
+    expect(progress.credits.earned).toBe(minor.maxSharedCredits);
+  });
+
+  it('moves electives past the shared limit to the program only', () => {
+    const courses = [...accountingRequired, ...financeElectives];
+    const { primaryCourses, programs: [progress] } = evaluatePrograms(courses, [minor]);
+
+    expect(progress.exclusive).toBe(9);
+    expect(progress.credits.earned).toBe(minor.maxSharedCredits + 9);
+    financeElectives.forEach((c) => expect(primaryCourses.map((p) => p.id)).not.toContain(c.id));
+  });
+
+  it('shares electives while the limit has room', () => {
+    const { primaryCourses, programs: [progress] } = evaluatePrograms(financeElectives, [minor]);
+
+    expect(progress.shared).toBe(6);
+    expect(progress.exclusive).toBe(3);
+    expect(primaryCourses.map((c) => c.name)).toEqual(['公司理財', '金融市場']);
+  });
+
+  it('never splits a course that crosses the shared limit', () => {
+    const electives = [
+      course('公司理財', '一般選修', '113-1', 4),
+      course('金融市場', '一般選修', '113-1', 3), // 4 + 3 crosses the limit of 6
+      course('期貨與選擇權', '一般選修', '113-2', 2),
+    ];
+    const { primaryCourses, programs: [progress] } = evaluatePrograms(electives, [minor]);
+
+    expect(progress.courses.map((c) => [c.course.name, c.shared, c.exclusive])).toEqual([
+      ['公司理財', 4, 0],
+      ['金融市場', 0, 3],
+      ['期貨與選擇權', 2, 0],
+    ]);
+    expect(primaryCourses).toEqual([electives[0], electives[2]]);
+  });
+
+  it('leaves a primary-needed course that crosses the limit wholly in the primary', () => {
+    const required = [course('財務管理', '系訂必修', '112-1', 4), course('投資學', '系訂必修', '112-2', 3)];
+    const { primaryCourses, programs: [progress] } = evaluatePrograms(required, [minor]);
+
+    expect(progress.courses.map((c) => [c.course.name, c.shared, c.uncounted])).toEqual([['財務管理', 4, 0], ['投資學', 0, 3]]);
+    expect(progress.credits.earned).toBe(4);
+    expect(primaryCourses).toEqual(required);
+  });
+
+  it('leaves the course list alone without programs', () => {
+    expect(evaluatePrograms(accountingRequired, []).primaryCourses).toBe(accountingRequired);
+  });
+});
@@ -0,0 +1,101 @@
+import { Course, CourseCategory, SecondaryProgram } from '../types';
+import { COURSE_CATALOG } from '../data/courseCatalog';
+import { CreditLayers, emptyLayers, layerOf } from './allocation';
+import { matchesCourseName } from './courseName';
+import { checkRequiredCourses, RequiredCourseCheck } from './requiredCourses';
+import { getCreditBearingCourses } from './retakes';
+import { compareSemesters } from './semester';
+
+// A course is never split: all of its credits are shared, program-only or uncounted
+export interface ProgramCourse {
+  course: Course;
+  shared: number;     // Credits that also count toward the primary rule set
+  exclusive: number;  // Credits that count toward this program only
+  uncounted: number;  // Credits of a course the primary needs that did not fit the shared limit: primary only
+}
+
+export interface ProgramProgress {
+  program: SecondaryProgram;
+  credits: CreditLayers;
+  shared: number;
+  exclusive: number;
+  uncounted: number;
+  courses: ProgramCourse[];
+  requiredCourses: RequiredCourseCheck[];
+  isMet: boolean;     // Completed credits and every listed course done
+}
+
+export interface ProgramEvaluation {
+  // The course list the primary rule set should be evaluated on: program-only credits taken out
+  primaryCourses: Course[];
+  programs: ProgramProgress[];
+}
+
+const LAYER_ORDER: Record<keyof CreditLayers, number> = { earned: 0, projected: 1, planned: 2 };
+// Courses the primary rule set needs (by their category there) always stay in the primary. They fill the
+// shared limit first; those that do not fit stop counting toward the program, so only electives become program-only.
+const PRIMARY_NEEDED: CourseCategory[] = ['共同必修', '系訂必修', '指定選修'];
+
+const programCourseNames = (program: SecondaryProgram) => [
+  ...(program.requiredCourses || []).flatMap((r) => [r.name, ...(r.aliases || [])]),
+  ...(program.electives || []),
+  ...COURSE_CATALOG
+    .filter((entry) => {
+      const category = entry.categories[program.departmentId];
+      return category === '系訂必修' || category === '指定選修';
+    })
+    .flatMap((entry) => [entry.name, ...(entry.aliases || [])]),
+];
+
+const evaluateProgram = (program: SecondaryProgram, courses: Course[]): ProgramProgress => {
+  const names = programCourseNames(program);
+  const eligible = getCreditBearingCourses(courses)
+    .filter((c) => matchesCourseName(c.name, names))
+    .sort((a, b) =>
+      Number(!PRIMARY_NEEDED.includes(a.category)) - Number(!PRIMARY_NEEDED.includes(b.category)) ||
+      LAYER_ORDER[layerOf(a)] - LAYER_ORDER[layerOf(b)] ||
+      compareSemesters(a.semester, b.semester)
+    );
+
+  // Whole courses go into the shared limit in order; one that does not fit leaves the room for later, smaller ones
+  let room = program.maxSharedCredits;
+  const credits = emptyLayers();
+  const programCourses = eligible.map((course): ProgramCourse => {
+    if (course.credits <= room) {
+      room -= course.credits;
+      credits[layerOf(course)] += course.credits;
+      return { course, shared: course.credits, exclusive: 0, uncounted: 0 };
+    }
+    if (PRIMARY_NEEDED.includes(course.category)) return { course, shared: 0, exclusive: 0, uncounted: course.credits };
+    credits[layerOf(course)] += course.credits;
+    return { course, shared: 0, exclusive: course.credits, uncounted: 0 };
+  });
+
+  const requiredCourses = checkRequiredCourses(program.requiredCourses || [], courses);
+
+  return {
+    program,
+    credits,
+    shared: programCourses.reduce((sum, c) => sum + c.shared, 0),
+    exclusive: programCourses.reduce((sum, c) => sum + c.exclusive, 0),
+    uncounted: programCourses.reduce((sum, c) => sum + c.uncounted, 0),
+    courses: programCourses,
+    requiredCourses,
+    isMet: credits.earned >= program.requiredCredits && requiredCourses.every((r) => r.status === 'done'),
+  };
+};
+
+// Count each course toward every secondary program it belongs to. Each program lets at most
+// maxSharedCredits also count toward the primary; electives that do not fit are taken out of the
+// primary's list, while courses the primary needs stay there and stop counting toward the program.
+// An elective that is program-only for any program leaves the primary.
+export const evaluatePrograms = (courses: Course[], programs: SecondaryProgram[]): ProgramEvaluation => {
+  if (programs.length === 0) return { primaryCourses: courses, programs: [] };
+
+  const progress = programs.map((program) => evaluateProgram(program, courses));
+
+  const excluded = new Set(progress.flatMap((p) => p.courses.filter((c) => c.exclusive > 0).map((c) => c.course.id)));
+  const primaryCourses = courses.filter((c) => !excluded.has(c.id));
+
+  return { primaryCourses, programs: progress };
+};
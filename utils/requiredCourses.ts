@@ -0,0 +1,47 @@
+import { Course, RequiredCourse } from '../types';
+import { matchesCourseName } from './courseName';
+import { getCreditBearingCourses } from './retakes';
+
+export type RequiredCourseStatus = 'done' | 'inProgress' | 'planned' | 'missing';
+
+export interface RequiredCourseCheck {
+  requirement: RequiredCourse;
+  status: RequiredCourseStatus;
+  earned: number;     // Credits from completed, passed courses
+  projected: number;  // Credits from in-progress courses
+  planned: number;    // Credits from courses planned for future semesters
+  matched: Course[];
+}
+
+const matchesRequirement = (course: Course, requirement: RequiredCourse) =>
+  matchesCourseName(course.name, [requirement.name, ...(requirement.aliases || [])]);
+
+// Match each listed required course against the student's courses by name
+export const checkRequiredCourses = (requiredCourses: RequiredCourse[], courses: Course[]): RequiredCourseCheck[] => {
+  const creditBearing = getCreditBearingCourses(courses);
+
+  return requiredCourses.map((requirement) => {
+    const matched = creditBearing.filter((c) => matchesRequirement(c, requirement));
+
+    let earned = 0;
+    let projected = 0;
+    let planned = 0;
+    matched.forEach((c) => {
+      if (c.isPlanned) {
+        planned += c.credits;
+      } else if (c.isCurrent) {
+        projected += c.credits;
+      } else {
+        earned += c.credits;
+      }
+    });
+
+    const status: RequiredCourseStatus =
+      earned >= requirement.credits ? 'done' :
+      projected > 0 ? 'inProgress' :
+      planned > 0 ? 'planned' :
+      'missing';
+
+    return { requirement, status, earned, projected, planned, matched };
+  });
+};
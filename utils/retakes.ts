@@ -0,0 +1,63 @@
+import { Course } from '../types';
+import { normalizeCourseName } from './courseName';
+import { compareSemesters } from './semester';
+
+// counted:    the attempt that earns the course's credits
+// failed:     an F; earns nothing but stays in the GPA (NTU keeps failed grades on the transcript)
+// superseded: a later attempt of a course already passed; NTU does not credit repeating a passed
+//             course, so it earns no credits and is left out of the GPA whatever its grade
+export type AttemptStatus = 'counted' | 'failed' | 'superseded';
+
+export interface AttemptInfo {
+  status: AttemptStatus;
+  countsForCredits: boolean;
+  countsForGpa: boolean;
+  attempts: number;       // How many times this course appears in the list
+  countedId?: string;     // Id of the attempt that counts, when this one does not
+}
+
+// How far along an attempt is: completed, in progress, planned. Lower wins.
+const attemptStage = (course: Course) => (course.isPlanned ? 2 : course.isCurrent ? 1 : 0);
+
+// Group courses by normalized name and decide which attempt earns the credits.
+// The earliest completed pass counts; without one, the earliest in-progress attempt, then the earliest planned one.
+// PE (體育) is never grouped because different PE classes often share a name.
+export const resolveAttempts = (courses: Course[]): Map<string, AttemptInfo> => {
+  const groups = new Map<string, Course[]>();
+  courses.forEach((course) => {
+    const key = course.category === '體育' ? `pe:${course.id}` : normalizeCourseName(course.name);
+    const group = groups.get(key) || [];
+    group.push(course);
+    groups.set(key, group);
+  });
+
+  const result = new Map<string, AttemptInfo>();
+  groups.forEach((group) => {
+    const passing = group
+      .filter((c) => c.grade !== 'F')
+      .sort((a, b) => compareSemesters(a.semester, b.semester));
+    const best = passing.reduce<Course | undefined>((acc, c) => {
+      if (!acc) return c;
+      return attemptStage(c) < attemptStage(acc) ? c : acc;
+    }, undefined);
+
+    group.forEach((course) => {
+      const attempts = group.length;
+      if (course.grade === 'F') {
+        result.set(course.id, { status: 'failed', countsForCredits: false, countsForGpa: true, attempts, countedId: best?.id });
+      } else if (best && course.id !== best.id) {
+        result.set(course.id, { status: 'superseded', countsForCredits: false, countsForGpa: false, attempts, countedId: best.id });
+      } else {
+        result.set(course.id, { status: 'counted', countsForCredits: true, countsForGpa: true, attempts });
+      }
+    });
+  });
+
+  return result;
+};
+
+// Courses that actually earn graduation credits (no F, no duplicate attempts)
+export const getCreditBearingCourses = (courses: Course[]): Course[] => {
+  const attempts = resolveAttempts(courses);
+  return courses.filter((c) => attempts.get(c.id)?.countsForCredits);
+};
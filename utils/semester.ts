@@ -0,0 +1,33 @@
+// Helper to compare semesters numerically (e.g. 111-1 vs 111-2)
+export const compareSemesters = (semA: string, semB: string) => {
+  // Split by non-digit characters to handle 111-1, 111/1, etc.
+  const splitA = semA.split(/[^0-9]/).map(s => parseInt(s, 10)).filter(n => !isNaN(n));
+  const splitB = semB.split(/[^0-9]/).map(s => parseInt(s, 10)).filter(n => !isNaN(n));
+
+  // Compare Academic Year
+  const yearA = splitA[0] || 0;
+  const yearB = splitB[0] || 0;
+  if (yearA !== yearB) return yearA - yearB;
+
+  // Compare Semester (if exists)
+  const termA = splitA[1] || 0;
+  const termB = splitB[1] || 0;
+  return termA - termB;
+};
+
+// Summer terms (暑修, "-3") are not regular semesters
+export const isSummerTerm = (semester: string) => /[-/.]3$/.test(semester.trim());
+// "111-1", "111/1", "111 - 1" or "111.1" → "111-1"; null when it is not a ROC year plus term 1–3
+export const normalizeSemester = (semester: string): string | null => {
+  const match = semester.trim().match(/^(\d{2,3})\s*[-/.]\s*([123])$/);
+  return match ? `${parseInt(match[1], 10)}-${match[2]}` : null;
+};
+
+// Semester in session on a date: term 1 runs August–January, term 2 February–July
+export const semesterOn = (date: Date): string => {
+  const rocYear = date.getFullYear() - 1911;
+  const month = date.getMonth() + 1;
+  if (month >= 8) return `${rocYear}-1`;
+  if (month === 1) return `${rocYear - 1}-1`;
+  return `${rocYear - 1}-2`;
+};
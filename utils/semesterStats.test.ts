@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeSemesters } from './semesterStats';
+import { course } from './__fixtures__/courses';
+
+describe('summarizeSemesters', () => {
+  it('leaves exemption records out of the semester load', () => {
+    const courses = [
+      ...['a', 'b', 'c', 'd', 'e', 'f'].map((id) => course(id)),
+      course('exempted', { credits: 6, grade: 'Pass', source: 'exempted' }),
+      course('transferred', { credits: 6, grade: 'Pass', source: 'transferred' }),
+    ];
+    const [semester] = summarizeSemesters(courses, { min: 9, max: 25 });
+
+    expect(semester.load).toBe(18);
+    expect(semester.loadFlag).toBeNull();
+    expect(semester.earnedCredits).toBe(30);
+  });
+});
@@ -0,0 +1,65 @@
+import { Course, CreditLoadLimits } from '../types';
+import { isExempted } from './exemptions';
+import { getGpaCourses, sumGradePoints, toGpa } from './gpa';
+import { resolveAttempts } from './retakes';
+import { compareSemesters, isSummerTerm } from './semester';
+
+export type SemesterStatus = 'done' | 'inProgress' | 'planned';
+
+export interface SemesterSummary {
+  semester: string;
+  status: SemesterStatus;
+  courses: Course[];
+  load: number;                  // Credits registered that semester, passed or not (exemption records excluded)
+  earnedCredits: number;         // Completed credits that count toward graduation
+  semesterGpa: number | null;    // null when nothing graded (or the semester is only planned)
+  cumulativeGpa: number | null;  // Through the end of this semester; null for semesters that are only planned
+  loadFlag: 'over' | 'under' | null;
+}
+
+const statusOf = (courses: Course[]): SemesterStatus =>
+  courses.some((c) => c.isCurrent) ? 'inProgress' :
+  courses.every((c) => c.isPlanned) ? 'planned' :
+  'done';
+
+// One row per semester, oldest first. In-progress grades are the predicted ones; planned courses carry no GPA.
+export const summarizeSemesters = (courses: Course[], creditLoad?: CreditLoadLimits): SemesterSummary[] => {
+  const attempts = resolveAttempts(courses);
+  const gpaIds = new Set(getGpaCourses(courses).filter((c) => !c.isPlanned).map((c) => c.id));
+
+  const bySemester = new Map<string, Course[]>();
+  courses.forEach((c) => {
+    const key = c.semester.trim();
+    bySemester.set(key, [...(bySemester.get(key) || []), c]);
+  });
+
+  let cumulative = { points: 0, credits: 0 };
+  return Array.from(bySemester.keys())
+    .sort(compareSemesters)
+    .map((semester) => {
+      const list = bySemester.get(semester)!;
+      const graded = sumGradePoints(list.filter((c) => gpaIds.has(c.id)));
+      cumulative = { points: cumulative.points + graded.points, credits: cumulative.credits + graded.credits };
+
+      // 抵免 and transfer records are not registered that semester
+      const load = list.filter((c) => !isExempted(c)).reduce((sum, c) => sum + c.credits, 0);
+      const loadFlag = !creditLoad || isSummerTerm(semester) ? null :
+        load > creditLoad.max ? 'over' :
+        load < creditLoad.min ? 'under' :
+        null;
+
+      const status = statusOf(list);
+      return {
+        semester,
+        status,
+        courses: list,
+        load,
+        earnedCredits: list
+          .filter((c) => !c.isCurrent && !c.isPlanned && attempts.get(c.id)?.countsForCredits)
+          .reduce((sum, c) => sum + c.credits, 0),
+        semesterGpa: graded.credits > 0 ? toGpa(graded) : null,
+        cumulativeGpa: cumulative.credits > 0 && status !== 'planned' ? toGpa(cumulative) : null,
+        loadFlag,
+      };
+    });
+};
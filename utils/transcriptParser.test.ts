@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { creditSourceFromGrade, mapGrade, parseTranscriptText } from './transcriptParser';
+
+// Text as copied from the NTU 成績查詢 page, one layout per fixture
+const fixture = (name: string) =>
+  parseTranscriptText(readFileSync(new URL(`./__fixtures__/transcripts/${name}.txt`, import.meta.url), 'utf8'));
+
+describe('parseTranscriptText', () => {
+  it('reads 學年度第N學期 headers, rows with and without 課號, and 缺考 X', () => {
+    const { rows, skippedLines } = fixture('semester-headers');
+
+    expect(rows).toEqual([
+      { semester: '111-1', code: 'ACCT1001', name: '會計學原理上', credits: 3, grade: 'A+', isCurrent: false, source: undefined, line: 5 },
+      { semester: '111-1', code: 'MATH4006', name: '微積分上', credits: 3, grade: 'B', isCurrent: false, source: undefined, line: 6 },
+      { semester: '111-1', code: undefined, name: '大一體育', credits: 0, grade: 'Pass', isCurrent: false, source: undefined, line: 7 },
+      { semester: '111-2', code: 'ACCT1002', name: '會計學原理下', credits: 3, grade: 'A-', isCurrent: false, source: undefined, line: 9 },
+      { semester: '111-2', code: 'ECON1001', name: '經濟學原理', credits: 3, grade: 'F', isCurrent: false, source: undefined, line: 10 },
+    ]);
+    // Page title, student name, column headings and the GPA summary are not data
+    expect(skippedLines).toEqual([]);
+  });
+
+  it('reads 111-1 and 112上 style headers', () => {
+    const { rows } = fixture('short-semesters');
+
+    expect(rows.map((r) => [r.semester, r.name, r.grade])).toEqual([
+      ['111-1', '會計學原理上', 'A'],
+      ['111-2', '中級會計學上', 'B+'],
+      ['112-1', '審計學', 'A'],
+      ['112-2', '成本會計', 'C'],
+    ]);
+  });
+
+  it('reads 通過/抵免/免修 and in-progress markers, and drops 停修/W rows', () => {
+    const { rows, skippedLines } = fixture('markers');
+
+    expect(rows.map((r) => [r.semester, r.code, r.name, r.credits, r.grade, r.isCurrent, r.source])).toEqual([
+      ['111-1', 'ACCT1001', '會計學原理上', 3, 'Pass', false, 'exempted'],
+      ['111-1', undefined, '會計學原理下', 3, 'Pass', false, 'examWaiver'],
+      ['111-2', undefined, '服務學習', 0, 'Pass', false, undefined],
+      ['112-1', 'ACCT3021', '高等會計學上', 3, 'Pass', true, undefined],
+      ['112-1', undefined, '審計學', 3, 'Pass', true, undefined],
+    ]);
+    expect(skippedLines).toEqual([]);
+  });
+
+  it('reports lines with digits it could not read', () => {
+    const { rows, skippedLines } = fixture('skipped-lines');
+
+    expect(rows.map((r) => r.name)).toEqual(['會計學原理上']);
+    expect(skippedLines).toEqual([
+      { line: 4, text: '112-1  微積分下  3' },
+      { line: 5, text: '999 999 999' },
+    ]);
+  });
+
+  it('skips rows before any semester is known', () => {
+    const { rows, skippedLines } = parseTranscriptText('會計學原理上  3  A');
+
+    expect(rows).toEqual([]);
+    expect(skippedLines).toEqual([{ line: 1, text: '會計學原理上  3  A' }]);
+  });
+});
+
+describe('grade markers', () => {
+  it('maps raw grades', () => {
+    expect(mapGrade('a-')).toBe('A-');
+    expect(mapGrade('X')).toBe('F');
+    expect(mapGrade('通過')).toBe('Pass');
+    expect(mapGrade('抵免')).toBe('Pass');
+  });
+
+  it('tells credit records from courses taken', () => {
+    expect(creditSourceFromGrade('抵免')).toBe('exempted');
+    expect(creditSourceFromGrade('免修')).toBe('examWaiver');
+    expect(creditSourceFromGrade('A+')).toBeUndefined();
+  });
+});
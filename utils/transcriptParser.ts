@@ -0,0 +1,135 @@
+import { CreditSource, Grade, GRADES } from '../types';
+
+// One course row recognised in pasted transcript text
+export interface TranscriptRow {
+  semester: string;   // "111-1"
+  code?: string;      // 課號, when the row has one
+  name: string;
+  credits: number;
+  grade: Grade;
+  isCurrent: boolean; // Listed without a final grade yet (修習中)
+  source?: CreditSource; // Set when the grade column says 抵免 or 免修
+  line: number;       // 1-based source line, for reporting
+}
+
+export interface TranscriptParseResult {
+  rows: TranscriptRow[];
+  skippedLines: { line: number; text: string }[]; // Non-empty lines that looked like data but could not be read
+}
+
+const PASS_MARKERS = ['通過', '免修', '抵免', 'P', 'PASS'];
+const IN_PROGRESS_MARKERS = ['修習中', '成績未到', '未送', '--', '—'];
+const WITHDRAWN_MARKERS = ['停修', 'W'];
+// Column headings and summary rows on the 成績查詢 page
+const IGNORED_KEYWORDS = ['課程名稱', '科目名稱', '平均', 'GPA', '總計', '總學分', '實得', '排名', '名次', '學分數'];
+
+const TERM_NUMBERS: Record<string, string> = { '一': '1', '上': '1', '二': '2', '下': '2', '三': '3', '暑': '3' };
+
+// Helper to map raw grade strings to our Grade type
+export const mapGrade = (raw: string): Grade => {
+  if (!raw) return 'Pass';
+  const g = raw.trim().toUpperCase();
+  if (GRADES.includes(g as Grade)) return g as Grade;
+  if (g === 'X') return 'F'; // 缺考 counts as a fail
+  if (PASS_MARKERS.some(x => g.includes(x))) return 'Pass';
+  return 'Pass'; // Fallback
+};
+
+// 抵免 and 免修 rows are credit records, not courses taken here
+export const creditSourceFromGrade = (raw: string): CreditSource | undefined => {
+  if (raw.includes('抵免')) return 'exempted';
+  if (raw.includes('免修')) return 'examWaiver';
+  return undefined;
+};
+
+const isGradeToken = (token: string) => {
+  const t = token.trim().toUpperCase();
+  return GRADES.includes(t as Grade) || t === 'X' || PASS_MARKERS.includes(t);
+};
+
+const SEMESTER_HEADER = /^(\d{2,3})\s*學年度?\s*(?:第\s*)?([一二三123上下暑])\s*學?期?/;
+const SEMESTER_TOKEN = /^(\d{2,3})\s*[-/.]\s*([123])$|^(\d{2,3})\s*([上下暑])$/;
+const COURSE_CODE = /^[A-Za-z]{2,5}\s?\d{3,5}[A-Za-z0-9]*$|^\d{3}\s?[A-Z]\d{4}$/;
+const CREDITS = /^(\d|1[0-5])(\.0)?$/; // No leading zero, so 班次 "01" is not read as credits
+const HAS_CJK = /[\u4e00-\u9fff]/;
+
+const toSemester = (year: string, term: string) => `${year}-${TERM_NUMBERS[term] || term}`;
+
+const parseSemesterToken = (token: string): string | null => {
+  const m = token.trim().match(SEMESTER_TOKEN);
+  if (!m) return null;
+  return m[1] ? toSemester(m[1], m[2]) : toSemester(m[3], m[4]);
+};
+
+// Columns are tab- or multi-space-separated when copied from the page; fall back to single spaces
+const tokenize = (line: string): string[] => {
+  const wide = line.split(/\t|\s{2,}/).map((t) => t.trim()).filter(Boolean);
+  return wide.length >= 3 ? wide : line.split(/\s+/).map((t) => t.trim()).filter(Boolean);
+};
+
+// Rule-based parser for text pasted from the NTU 成績查詢 page.
+// Understands semester headers ("111學年度第1學期", "111-1", "111上"), rows that start with
+// their own semester, course codes, credits, letter grades, 通過/抵免/免修 and in-progress markers.
+export const parseTranscriptText = (text: string): TranscriptParseResult => {
+  const rows: TranscriptRow[] = [];
+  const skippedLines: TranscriptParseResult['skippedLines'] = [];
+  let semester: string | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = rawLine.trim();
+    const lineNo = idx + 1;
+    if (!line) return;
+
+    // "111-1" or "112 上" on its own line acts as a header
+    const bareSemester = parseSemesterToken(line);
+    if (bareSemester) {
+      semester = bareSemester;
+      return;
+    }
+
+    const header = line.match(SEMESTER_HEADER);
+    if (header) {
+      semester = toSemester(header[1], header[2]);
+      // A header line carries nothing else worth reading
+      if (tokenize(line.slice(header[0].length)).filter((t) => isGradeToken(t) || CREDITS.test(t)).length < 2) return;
+    }
+
+    if (IGNORED_KEYWORDS.some((k) => line.includes(k))) return;
+
+    const tokens = tokenize(header ? line.slice(header[0].length) : line);
+    let rowSemester = semester;
+    const leadingSemester = tokens.length > 0 ? parseSemesterToken(tokens[0]) : null;
+    if (leadingSemester) {
+      rowSemester = leadingSemester;
+      tokens.shift();
+    }
+
+    if (WITHDRAWN_MARKERS.some((m) => tokens.includes(m))) return;
+
+    const nameIdx = tokens.findIndex((t) => HAS_CJK.test(t) && !isGradeToken(t) && !IN_PROGRESS_MARKERS.includes(t));
+    const fallbackNameIdx = tokens.findIndex((t) => /[A-Za-z]{2,}/.test(t) && !COURSE_CODE.test(t) && !isGradeToken(t));
+    const resolvedNameIdx = nameIdx >= 0 ? nameIdx : fallbackNameIdx;
+    const creditsIdx = tokens.findIndex((t, i) => i > resolvedNameIdx && CREDITS.test(t));
+    const gradeIdx = tokens.findIndex((t, i) => i > creditsIdx && isGradeToken(t));
+    const isCurrent = gradeIdx < 0 && tokens.some((t, i) => i > creditsIdx && IN_PROGRESS_MARKERS.includes(t));
+
+    if (resolvedNameIdx < 0 || creditsIdx < 0 || (gradeIdx < 0 && !isCurrent) || !rowSemester) {
+      // Lines without any digits are page chrome (titles, names), not data
+      if (/\d/.test(line)) skippedLines.push({ line: lineNo, text: line });
+      return;
+    }
+
+    rows.push({
+      semester: rowSemester,
+      code: tokens.slice(0, resolvedNameIdx).find((t) => COURSE_CODE.test(t)),
+      name: tokens[resolvedNameIdx],
+      credits: Number(tokens[creditsIdx]),
+      grade: isCurrent ? 'Pass' : mapGrade(tokens[gradeIdx]),
+      isCurrent,
+      source: isCurrent ? undefined : creditSourceFromGrade(tokens[gradeIdx]),
+      line: lineNo,
+    });
+  });
+
+  return { rows, skippedLines };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Course } from '../types';
+import { validateCourses } from './validation';
+import { course } from './__fixtures__/courses';
+
+// A course taken here in 110-1
+const taken = (overrides: Partial<Course> = {}) => course('a', { semester: '110-1', name: '會計學原理上', ...overrides });
+
+const NOW = new Date(2024, 2, 1); // 112-2
+
+describe('validateCourses: beforeEntryYear', () => {
+  it('flags a course taken here before the entry year', () => {
+    const warnings = validateCourses([taken()], 111, NOW);
+
+    expect(warnings.map((w) => w.rule)).toEqual(['beforeEntryYear']);
+    // Which semester is right is for the user to say
+    expect(warnings[0].fix).toBeUndefined();
+  });
+
+  it('leaves exemption, transfer and exam-waiver records alone', () => {
+    const courses = (['exempted', 'transferred', 'examWaiver'] as const).map((source, i) =>
+      taken({ id: `c${i}`, source, grade: 'Pass' })
+    );
+
+    expect(validateCourses(courses, 111, NOW)).toEqual([]);
+  });
+});
+
+describe('validateCourses: quick fixes', () => {
+  it('offers no fix for an unreadable semester', () => {
+    const [warning] = validateCourses([course('a', { semester: '去年' })], 111, NOW);
+
+    expect(warning.rule).toBe('semesterFormat');
+    expect(warning.fix).toBeUndefined();
+  });
+
+  it('fixes zero credits from the catalog, and only for courses it lists', () => {
+    const [pe, listed, unlisted] = validateCourses([
+      course('pe', { name: '體育：羽球', credits: 0 }),
+      course('listed', { name: '中級會計學 上', credits: 0 }),
+      course('unlisted', { name: '專題研究', credits: 0 }),
+    ], 111, NOW);
+
+    expect(pe.fix?.patch).toEqual({ category: '體育' });
+    expect(listed.fix?.patch).toEqual({ credits: 3 });
+    expect(unlisted.rule).toBe('zeroCredits');
+    expect(unlisted.fix).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import { Course } from '../types';
+import { findCatalogEntry } from './catalogSearch';
+import { isExempted } from './exemptions';
+import { compareSemesters, normalizeSemester, semesterOn } from './semester';
+
+export type ValidationRule =
+  | 'semesterFormat'
+  | 'beforeEntryYear'
+  | 'futureNotMarked'
+  | 'endedInProgress'
+  | 'stalePlanned'
+  | 'zeroCredits'
+  | 'peWithCredits';
+
+// A one-click correction: the fields to overwrite on the course. Only offered when the right value
+// is known; otherwise the user has to edit the course.
+export interface QuickFix {
+  label: string;
+  patch: Partial<Course>;
+}
+
+export interface CourseWarning {
+  id: string;          // `${rule}:${course.id}`, stable across renders
+  rule: ValidationRule;
+  course: Course;
+  message: string;
+  fix?: QuickFix;
+}
+
+const looksLikePE = (name: string) => /體育|^PE\b/i.test(name.trim());
+// 服務學習 is a genuine 0-credit requirement
+const isZeroCreditCourse = (name: string) => name.trim().startsWith('服務學習');
+
+const checkCourse = (course: Course, entryYear: number, now: string): Omit<CourseWarning, 'id' | 'course'>[] => {
+  const warnings: Omit<CourseWarning, 'id' | 'course'>[] = [];
+  const semester = normalizeSemester(course.semester);
+
+  if (!semester) {
+    warnings.push({
+      rule: 'semesterFormat',
+      message: `學年期「${course.semester}」格式無法辨識，請編輯課程 (expected e.g. 111-1)`,
+    });
+  } else {
+    if (semester !== course.semester) {
+      warnings.push({
+        rule: 'semesterFormat',
+        message: `學年期「${course.semester}」格式不一致`,
+        fix: { label: `改為 ${semester}`, patch: { semester } },
+      });
+    }
+
+    const [year] = semester.split('-');
+    const cmp = compareSemesters(semester, now);
+    // 抵免 and transfer records usually date from before entry, at another school
+    if (parseInt(year, 10) < entryYear && !isExempted(course)) {
+      warnings.push({
+        rule: 'beforeEntryYear',
+        message: `學年期早於入學年度 ${entryYear}，請編輯課程的學年期`,
+      });
+    }
+    if (cmp > 0 && !course.isCurrent && !course.isPlanned) {
+      warnings.push({
+        rule: 'futureNotMarked',
+        message: `${semester} 尚未開始，卻標示為已修畢`,
+        fix: { label: '改為未來規劃', patch: { isPlanned: true, isCurrent: false } },
+      });
+    }
+    if (cmp < 0 && course.isCurrent) {
+      warnings.push({
+        rule: 'endedInProgress',
+        message: `${semester} 已結束，仍標示為修習中`,
+        fix: { label: '改為已修畢', patch: { isCurrent: false } },
+      });
+    }
+    if (cmp <= 0 && course.isPlanned) {
+      warnings.push({
+        rule: 'stalePlanned',
+        message: cmp === 0 ? '本學期課程仍標示為未來規劃' : `${semester} 已結束，仍標示為未來規劃`,
+        fix: cmp === 0
+          ? { label: '改為修習中', patch: { isPlanned: undefined, isCurrent: true } }
+          : { label: '改為已修畢', patch: { isPlanned: undefined } },
+      });
+    }
+  }
+
+  if (course.category === '體育' && course.credits > 0) {
+    warnings.push({
+      rule: 'peWithCredits',
+      message: `體育課程登錄了 ${course.credits} 學分 (PE carries no credits)`,
+      fix: { label: '改為 0 學分', patch: { credits: 0 } },
+    });
+  }
+  if (course.category !== '體育' && course.credits === 0 && !isZeroCreditCourse(course.name)) {
+    // Credits come from the catalog; a course it does not list has to be edited by hand
+    const catalogCredits = findCatalogEntry(course.name)?.credits || 0;
+    warnings.push({
+      rule: 'zeroCredits',
+      message: '非體育課程的學分為 0',
+      fix: looksLikePE(course.name) ? { label: '改為體育', patch: { category: '體育' } } :
+        catalogCredits > 0 ? { label: `改為 ${catalogCredits} 學分 (課程目錄)`, patch: { credits: catalogCredits } } :
+        undefined,
+    });
+  }
+
+  return warnings;
+};
+
+// Obviously wrong course data, in course order. `now` decides which semesters are past, current or future.
+export const validateCourses = (courses: Course[], entryYear: number, now = new Date()): CourseWarning[] => {
+  const currentSemester = semesterOn(now);
+  return courses.flatMap((course) =>
+    checkCourse(course, entryYear, currentSemester).map((w) => ({ ...w, id: `${w.rule}:${course.id}`, course }))
+  );
+};
+
+export const applyQuickFix = (course: Course, fix: QuickFix): Course => ({ ...course, ...fix.patch });